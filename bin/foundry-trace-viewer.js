@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+// Serve the built viewer locally and stream a trace into it.
+//
+//   forge test -vvvv | foundry-trace-viewer
+//   foundry-trace-viewer --watch trace.log
+//
+// Connected viewers receive the trace over a WebSocket and re-parse it
+// whenever more output arrives on stdin or the watched file changes.
+import { createServer } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import { unwatchFile, watchFile } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { WebSocketServer } from 'ws';
+
+const DIST_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'dist');
+
+// Wait this long after the last change before pushing an update
+const BROADCAST_DELAY = 200;
+
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+const usage = `Usage: foundry-trace-viewer [options] [file]
+
+Serve the trace viewer and load a forge trace into it.
+Reads from stdin when no file is given.
+
+Options:
+  -w, --watch <file>  Load <file> and reload the viewer whenever it changes
+  -p, --port <port>   Port to listen on (default: 4173)
+      --host <host>   Host to bind to (default: 127.0.0.1)
+  -h, --help          Show this message`;
+
+const { values: options, positionals } = parseArgs({
+  options: {
+    watch: { type: 'string', short: 'w' },
+    port: { type: 'string', short: 'p', default: '4173' },
+    host: { type: 'string', default: '127.0.0.1' },
+    help: { type: 'boolean', short: 'h' },
+  },
+  allowPositionals: true,
+});
+
+if (options.help) {
+  console.log(usage);
+  process.exit(0);
+}
+
+const tracePath = options.watch ?? positionals[0] ?? null;
+const port = Number(options.port);
+if (!Number.isInteger(port) || port < 1 || port > 65535) {
+  console.error(`foundry-trace-viewer: invalid port ${options.port}, expected an integer from 1 to 65535`);
+  process.exit(1);
+}
+
+// Pages allowed to open the WebSocket: only the viewer served here, so other
+// sites the user visits can't connect and read the streamed traces
+const allowedOrigins = new Set([
+  `http://127.0.0.1:${port}`,
+  `http://localhost:${port}`,
+  `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}`,
+]);
+
+// Latest trace, sent to every viewer that connects
+let current = { name: tracePath ? path.basename(tracePath) : 'stdin', text: '' };
+
+// Serve files from the built app, falling back to index.html
+const serveStatic = async (req, res) => {
+  const urlPath = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+  let filePath = path.join(DIST_DIR, path.normalize(urlPath));
+  if (!filePath.startsWith(DIST_DIR)) {
+    res.writeHead(403).end();
+    return;
+  }
+
+  try {
+    if ((await stat(filePath)).isDirectory()) {
+      filePath = path.join(filePath, 'index.html');
+    }
+  } catch {
+    filePath = path.join(DIST_DIR, 'index.html');
+  }
+
+  try {
+    const body = await readFile(filePath);
+    const contentType = CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream';
+    res.writeHead(200, { 'Content-Type': contentType }).end(body);
+  } catch {
+    res.writeHead(404).end('Not found. Run `npm run build` first.');
+  }
+};
+
+const server = createServer(serveStatic);
+const wss = new WebSocketServer({
+  server,
+  path: '/ws',
+  verifyClient: ({ origin }) => allowedOrigins.has(origin),
+});
+
+const send = (socket) => {
+  socket.send(JSON.stringify({ type: 'trace', name: current.name, text: current.text }));
+};
+
+wss.on('connection', socket => {
+  if (current.text) send(socket);
+});
+
+let broadcastTimer = null;
+const scheduleBroadcast = () => {
+  clearTimeout(broadcastTimer);
+  broadcastTimer = setTimeout(() => wss.clients.forEach(send), BROADCAST_DELAY);
+};
+
+// Re-read the file and push it if it changed
+const loadFile = async () => {
+  try {
+    const text = await readFile(tracePath, 'utf8');
+    if (text === current.text) return;
+    current = { ...current, text };
+    scheduleBroadcast();
+  } catch (error) {
+    console.error(`foundry-trace-viewer: cannot read ${tracePath}: ${error.message}`);
+  }
+};
+
+if (tracePath) {
+  await loadFile();
+  if (options.watch) {
+    // Polling survives editors and shell redirects replacing the file
+    watchFile(tracePath, { interval: 300 }, loadFile);
+  }
+} else if (process.stdin.isTTY) {
+  console.error(usage);
+  process.exit(1);
+} else {
+  // Stream stdin into the viewer while passing it through to the terminal
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', chunk => {
+    process.stdout.write(chunk);
+    current = { ...current, text: current.text + chunk };
+    scheduleBroadcast();
+  });
+}
+
+server.listen(port, options.host, () => {
+  console.error(`foundry-trace-viewer: http://${options.host}:${port}`);
+});
+
+process.on('SIGINT', () => {
+  if (tracePath) unwatchFile(tracePath);
+  wss.close();
+  server.close();
+  process.exit(0);
+});
@@ -1,34 +1,230 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useCallback, startTransition } from 'react';
 import './trace-item.css';
-
-// Define trace interface
-interface Trace {
-  id: string;
-  content: string;
-  children: Trace[];
-  depth: number;
-  contractName: string | null;
-  functionName: string | null;
-  callType: string | null;
-  isReturn: boolean;
-  isEvent: boolean;
-  raw: string;
-  rowIndex: number;
-  parent?: Trace;
-  stackId?: number;
-}
+import {
+  ADDRESS_PATTERN,
+  NUMBER_FORMATS,
+  NoiseCategory,
+  NumberFormat,
+  QueryError,
+  SearchFields,
+  Trace,
+  TraceArg,
+  TestResult,
+  TestSuite,
+  ForgeOutput,
+  analyzeReverts,
+  buildLedger,
+  collectDeployments,
+  collectEvents,
+  collectStats,
+  collectTokenDecimals,
+  DEFAULT_DECIMALS,
+  findMatchingTest,
+  formatGas,
+  formatNumber,
+  getAncestors,
+  getNoiseCategory,
+  getBubbledFrom,
+  getSelfGas,
+  getTokenKey,
+  getTraceIdentities,
+  getVisibleChildren,
+  harvestLabels,
+  indexTraces,
+  isAddress,
+  isCreation,
+  isFailure,
+  matchesQuery,
+  parseInWorker,
+  parseNumber,
+  parseQuery,
+  splitArgs,
+  walkTraces,
+  walkVisibleTraces
+} from './parser';
+import { AbiIndex, DecodedTrace, decodeTraces } from './abi';
+import AbiPanel from './components/AbiPanel';
+import BookmarksPanel from './components/BookmarksPanel';
+import FlameGraph from './components/FlameGraph';
+import SequenceDiagram from './components/SequenceDiagram';
+import NoiseFilters from './components/NoiseFilters';
+import NumberFormatBar from './components/NumberFormatBar';
+import NumericValue from './components/NumericValue';
+import SessionPanel from './components/SessionPanel';
+import StatsPanel from './components/StatsPanel';
+import StoragePanel from './components/StoragePanel';
+import TraceDiffView from './components/TraceDiffView';
+import TestNavigator from './components/TestNavigator';
+import TraceContextMenu from './components/TraceContextMenu';
+import VirtualTraceList, { ScrollRequest } from './components/VirtualTraceList';
+import KeyboardHelp from './components/KeyboardHelp';
+import FrameBreadcrumb from './components/FrameBreadcrumb';
+import LedgerPanel from './components/LedgerPanel';
+import EventTimeline from './components/EventTimeline';
+import DeploymentsPanel from './components/DeploymentsPanel';
+import AddressBookPanel from './components/AddressBookPanel';
+import AddressLabel from './components/AddressLabel';
+import { useAddressBook } from './hooks/useAddressBook';
+import { TraceRow, flattenTraceRows, toFlatRows } from './components/traceRows';
+import { useLiveTrace } from './hooks/useLiveTrace';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { MAX_PINNED_FRAMES, useSidebar } from './hooks/useSidebar';
+import { SessionView, useSession } from './hooks/useSession';
+import { useComparison } from './hooks/useComparison';
+import { ExportFormat, exportTrace } from './export';
+import { SessionState, clearForgottenSessions, hashTraceText, loadSession } from './session';
 
 const DarkEnhancedTraceViewer = () => {
-  const [file, setFile] = useState<File | null>(null);
+  const [sourceName, setSourceName] = useState<string | null>(null);
+  const [pasteOpen, setPasteOpen] = useState(false);
+  const [pasteText, setPasteText] = useState('');
+  const [dragActive, setDragActive] = useState(false);
+  const [addressBookOpen, setAddressBookOpen] = useState(false);
+  const [abiPanelOpen, setAbiPanelOpen] = useState(false);
+  const [storagePanelOpen, setStoragePanelOpen] = useState(false);
+  const [sessionPanelOpen, setSessionPanelOpen] = useState(false);
+  const [statsPanelOpen, setStatsPanelOpen] = useState(false);
+  const [ledgerPanelOpen, setLedgerPanelOpen] = useState(false);
+  const [timelinePanelOpen, setTimelinePanelOpen] = useState(false);
+  const [deploymentsPanelOpen, setDeploymentsPanelOpen] = useState(false);
+  const [abiIndex, setAbiIndex] = useState<AbiIndex | null>(null);
   const [traces, setTraces] = useState<Trace[]>([]);
   const [loading, setLoading] = useState(false);
+  const [parseProgress, setParseProgress] = useState(0);
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchError, setSearchError] = useState<QueryError | null>(null);
   const [highlightedItems, setHighlightedItems] = useState<Set<string>>(new Set());
-  const [lastExpandedTrace, setLastExpandedTrace] = useState<Trace | null>(null);
-  const [expandedHistory, setExpandedHistory] = useState<Trace[]>([]);
   const [searchMode, setSearchMode] = useState(false);
   const [filteredTraces, setFilteredTraces] = useState<Trace[]>([]);
+  // Show search hits inside the full tree instead of as a flat list
+  const [searchInContext, setSearchInContext] = useState(false);
+  // Match selected with Enter / Shift+Enter
+  const [activeMatch, setActiveMatch] = useState<number | null>(null);
+  const [sortChildrenByGas, setSortChildrenByGas] = useState(false);
+  const [hiddenCategories, setHiddenCategories] = useState<Set<NoiseCategory>>(new Set());
+  // How numbers are shown, globally and for values switched by double-click
+  const [numberFormat, setNumberFormat] = useState<NumberFormat>('raw');
+  const [defaultDecimals, setDefaultDecimals] = useState(DEFAULT_DECIMALS);
+  const [valueFormats, setValueFormats] = useState<Map<string, NumberFormat>>(new Map());
+  const [viewMode, setViewMode] = useState<'tree' | 'flame' | 'sequence' | 'diff'>('tree');
+  const [rootCauseIndex, setRootCauseIndex] = useState(0);
+  const [testSuites, setTestSuites] = useState<TestSuite[]>([]);
+  const [testSummary, setTestSummary] = useState<string | null>(null);
+  const [selectedTest, setSelectedTest] = useState<TestResult | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ trace: Trace; x: number; y: number } | null>(null);
+  // Bumped by every parse, so results of superseded ones are dropped
+  const parseGenerationRef = useRef(0);
+
+  // Only the selected test's traces are shown, or everything when none is selected
+  const visibleTraces = selectedTest ? selectedTest.traces : traces;
+
+  const {
+    sidebarHistory,
+    sidebarFrame,
+    pinnedFrames,
+    showInSidebar,
+    stepSidebarHistory,
+    clearSidebarHistory,
+    togglePin,
+    replacePin,
+    resetSidebar,
+    carryOverSidebar,
+    restoreSidebar
+  } = useSidebar();
+
+  // What a saved session restores, apart from the bookmarks
+  const sessionView = useMemo(
+    (): SessionView => ({
+      expandedIds: [...expandedItems],
+      historyIds: sidebarHistory.frames.map(trace => trace.id),
+      historyIndex: sidebarHistory.index,
+      pinnedIds: pinnedFrames.map(trace => trace.id),
+      searchTerm,
+      selectedTestId: selectedTest?.id ?? null,
+    }),
+    [expandedItems, sidebarHistory, pinnedFrames, searchTerm, selectedTest]
+  );
+  const {
+    bookmarks,
+    setBookmarks,
+    startSession,
+    getSessionFile,
+    forgetSession,
+    toggleBookmark,
+    changeBookmarkNote
+  } = useSession(sourceName, sessionView);
+
+  const { comparison, traceDiff, loadComparison, clearComparison } = useComparison(visibleTraces, selectedTest, testSuites);
+
+  const [scrollRequest, setScrollRequest] = useState<ScrollRequest | null>(null);
+  // Row the keyboard cursor is on
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [helpOpen, setHelpOpen] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // Lookup of every node by ID, for jumping to frames from other views
+  const traceIndex = useMemo(() => indexTraces(traces), [traces]);
+
+  // Labels from the trace itself plus the user's saved ones
+  const harvestedLabels = useMemo(() => harvestLabels(traces), [traces]);
+  const addressBook = useAddressBook(harvestedLabels);
+
+  // Calls, logs, return data and errors decoded with loaded artifacts
+  const decodedTraces = useMemo(
+    () => (abiIndex ? decodeTraces(traces, abiIndex) : new Map<string, DecodedTrace>()),
+    [traces, abiIndex]
+  );
+
+  // Best name for the contract a frame runs in. Memoized so views that
+  // aggregate by name only recompute when names can change.
+  const addressLabels = addressBook.labels;
+  const getTargetName = useMemo(
+    () => (trace: Trace) => trace.contractName
+      ?? decodedTraces.get(trace.id)?.contractName
+      ?? (trace.address ? addressLabels[trace.address.toLowerCase()] ?? trace.address : '?'),
+    [decodedTraces, addressLabels]
+  );
+
+  // Calls, edges and events aggregated over what the tree shows
+  const stats = useMemo(
+    () => (statsPanelOpen
+      ? collectStats(visit => walkVisibleTraces(visibleTraces, hiddenCategories, visit), getTargetName)
+      : null),
+    [statsPanelOpen, visibleTraces, hiddenCategories, getTargetName]
+  );
+
+  // Every event of the shown traces in the order it was emitted
+  const timelineEvents = useMemo(
+    () => (timelinePanelOpen ? collectEvents(visibleTraces, getTargetName, trace => decodedTraces.get(trace.id)) : null),
+    [timelinePanelOpen, visibleTraces, getTargetName, decodedTraces]
+  );
+
+  // Contracts created in the shown traces
+  const deployments = useMemo(
+    () => (deploymentsPanelOpen ? collectDeployments(visibleTraces) : null),
+    [deploymentsPanelOpen, visibleTraces]
+  );
+
+  // ETH and token movements of the shown traces
+  const ledger = useMemo(
+    () => (ledgerPanelOpen ? buildLedger(visibleTraces, addressLabels) : null),
+    [ledgerPanelOpen, visibleTraces, addressLabels]
+  );
+
+  // Token decimals read from decimals() calls in the trace
+  const tokenDecimals = useMemo(() => collectTokenDecimals(traces), [traces]);
+
+  // Failing paths and the frames that reverted first
+  const revertAnalysis = useMemo(() => analyzeReverts(visibleTraces), [visibleTraces]);
+
+  // The expanded part of the tree (or the search results) as a flat list of rows
+  const rows = useMemo(
+    () => (searchMode && !searchInContext
+      ? toFlatRows(filteredTraces)
+      : flattenTraceRows(visibleTraces, expandedItems, sortChildrenByGas, hiddenCategories)),
+    [searchMode, searchInContext, filteredTraces, visibleTraces, expandedItems, sortChildrenByGas, hiddenCategories]
+  );
 
   // Refs for scrolling to elements
   const traceRefs = useRef<Record<string, HTMLDivElement>>({});
@@ -63,149 +259,163 @@ const DarkEnhancedTraceViewer = () => {
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
     if (selectedFile) {
-      setFile(selectedFile);
       parseTraceFile(selectedFile);
     }
   };
 
-  // Parse the trace file and convert it to a tree structure
+  // Load a file dropped onto the trace container
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+    const droppedFile = event.dataTransfer.files?.[0];
+    if (droppedFile) {
+      parseTraceFile(droppedFile);
+    }
+  };
+
+  // Load trace text pasted into the paste area
+  const handlePasteSubmit = () => {
+    if (!pasteText.trim()) return;
+    parseTraceText(pasteText, 'Pasted trace');
+    setPasteText('');
+    setPasteOpen(false);
+  };
+
+  // Read an uploaded or dropped file
   const parseTraceFile = async (file: File) => {
+    parseTraceText(await file.text(), file.name);
+  };
+
+  // Parse trace text (uploaded, dropped, pasted or pushed by the companion CLI)
+  // and convert it to a tree structure. With `preserveView` the expanded frames,
+  // selected test, sidebar and bookmarks carry over to nodes that still exist.
+  // Otherwise the session saved for the same text (or the given one) is restored.
+  const parseTraceText = async (text: string, name: string, preserveView = false, restore?: SessionState) => {
+    // Live pushes can arrive while a parse is running; only the latest may apply
+    const generation = ++parseGenerationRef.current;
+    const isStale = () => generation !== parseGenerationRef.current;
+
+    setSourceName(name);
     setLoading(true);
+    setParseProgress(0);
 
-    try {
-      const text = await file.text();
-      // Split by "Traces:" to handle multiple trace sections
-      const traceSections = text.split(/Traces:\s*/g).filter(Boolean);
-
-      const allTraces = [];
-      let globalLineId = 0; // Global counter for unique IDs across all sections
-
-      for (let section of traceSections) {
-        const lines = section.split('\n');
-        const sectionTraces = parseTraceLines(lines, globalLineId);
-        // Update the global line ID counter based on the traces we've processed
-        globalLineId += lines.length;
-        allTraces.push(...sectionTraces);
-      }
+    // Remember what was open by node identity, since line-based IDs shift
+    const oldIdentities = getTraceIdentities(traces);
+    const expandedIdentities = new Set([...expandedItems].map(id => oldIdentities.get(id)));
 
-      // We no longer need to set stackId as we're using depth for coloring
-      // But keeping this for backward compatibility
-      allTraces.forEach((trace, index) => {
-        trace.stackId = index;
-        assignStackIds(trace.children, index);
-      });
+    try {
+      const output = await parseInWorker(text, setParseProgress);
+      const hash = hashTraceText(text);
+      const saved = restore ?? (preserveView ? null : await loadSession(hash).catch(() => null));
+      if (isStale()) return;
+      // A freshly loaded trace is saved again, even one forgotten before
+      if (!preserveView) clearForgottenSessions();
+      const allTraces = output.traces;
+      const newIdentities = getTraceIdentities(allTraces);
+      const byIdentity = new Map([...newIdentities].map(([id, identity]) => [identity, id]));
+      const newIndex = indexTraces(allTraces);
+
+      // Find the node a trace from the previous parse corresponds to
+      const carryOver = (trace: Trace | null) => {
+        const id = trace && byIdentity.get(oldIdentities.get(trace.id) ?? '');
+        return id ? newIndex.get(id) ?? null : null;
+      };
 
+      startSession(text, hash);
       setTraces(allTraces);
+      setTestSuites(output.suites);
+      setTestSummary(output.summary);
+      setValueFormats(new Map());
 
-      // Auto-expand top level traces
-      const topLevelIds = new Set(allTraces.map(trace => trace.id));
-      setExpandedItems(topLevelIds);
+      if (saved) {
+        restoreSession(saved, output, newIndex);
+        return;
+      }
 
-      // Reset sidebar history
-      setLastExpandedTrace(null);
-      setExpandedHistory([]);
+      // Keep showing the same test if it is still there
+      let keptTest: TestResult | null = null;
+      if (preserveView && selectedTest) {
+        keptTest = findMatchingTest(selectedTest, testSuites, output.suites);
+      }
+      setSelectedTest(keptTest);
+
+      // Auto-expand top level traces and every path leading to a revert
+      const expandedIds = new Set<string>();
+      if (preserveView) {
+        newIdentities.forEach((identity, id) => {
+          if (expandedIdentities.has(identity)) expandedIds.add(id);
+        });
+      }
+      if (expandedIds.size === 0) {
+        allTraces.forEach(trace => expandedIds.add(trace.id));
+      }
+      analyzeReverts(allTraces).failingPath.forEach(id => expandedIds.add(id));
+      setExpandedItems(expandedIds);
+      setRootCauseIndex(0);
+
+      if (preserveView) {
+        carryOverSidebar(carryOver);
+        setBookmarks(bookmarks.flatMap(bookmark => {
+          const trace = carryOver(traceIndex.get(bookmark.traceId) ?? null);
+          return trace ? [{ ...bookmark, traceId: trace.id }] : [];
+        }));
+        runSearch(searchTerm, keptTest ? keptTest.traces : allTraces);
+      } else {
+        resetSidebar();
+        setBookmarks([]);
+      }
 
     } catch (error) {
-      console.error("Error parsing trace file:", error);
+      if (!isStale()) console.error("Error parsing trace file:", error);
     } finally {
-      setLoading(false);
+      if (!isStale()) setLoading(false);
     }
   };
 
-  // Assign stack IDs to all children recursively
-  const assignStackIds = (traces: Trace[], stackId: number) => {
-    traces.forEach(trace => {
-      trace.stackId = stackId;
-      if (trace.children && trace.children.length > 0) {
-        assignStackIds(trace.children, stackId);
-      }
-    });
+  // Bring back the view saved for this text. IDs are line-based, so they
+  // match exactly as long as the text is the same.
+  const restoreSession = (saved: SessionState, output: ForgeOutput, newIndex: Map<string, Trace>) => {
+    const restoredTest = output.suites
+      .flatMap(suite => suite.tests)
+      .find(test => test.id === saved.selectedTestId) ?? null;
+    const history = saved.historyIds.flatMap(id => newIndex.get(id) ?? []);
+
+    setSelectedTest(restoredTest);
+    setExpandedItems(new Set(saved.expandedIds.filter(id => newIndex.has(id))));
+    setRootCauseIndex(0);
+    // Sessions saved before pins existed only have the history
+    restoreSidebar(history, saved.historyIndex ?? history.length - 1, (saved.pinnedIds ?? []).flatMap(id => newIndex.get(id) ?? []));
+    setBookmarks(saved.bookmarks.filter(bookmark => newIndex.has(bookmark.traceId)));
+    setSearchTerm(saved.searchTerm);
+    runSearch(saved.searchTerm, restoredTest ? restoredTest.traces : output.traces);
   };
 
-  // Parse individual trace lines into a hierarchical structure
-  const parseTraceLines = (lines: string[], startLineId = 0): Trace[] => {
-    const rootTraces: Trace[] = [];
-    let currentStack: Trace[] = [];
-    let lineId = startLineId;
-
-    for (let line of lines) {
-      // Skip empty lines
-      if (!line.trim()) continue;
-
-      // Determine indentation level by counting leading spaces, ├─, │, etc.
-      const indentMatch = line.match(/^(\s*(?:[│├└]─?\s*)*)/);
-      if (!indentMatch) continue;
-
-      const indentPart = indentMatch[1];
-      // Calculate depth based on indent characters
-      const depth = (indentPart.match(/[│├└]/g) || []).length;
-
-      // Trim the indentation characters and spaces
-      const content = line.substring(indentPart.length).trim();
-      if (!content) continue;
+  // Parse a second file to diff the loaded trace against
+  const handleCompareFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
 
-      // Extract function name and arguments if available
-      let functionName = null;
-      let contractName = null;
-      let callType = null;
-
-      const functionMatch = content.match(/([A-Za-z0-9_]+)::([A-Za-z0-9_]+)\((.*?)\)/);
-      if (functionMatch) {
-        contractName = functionMatch[1];
-        functionName = functionMatch[2];
-      }
-
-      // Extract call type (staticcall, call, etc.)
-      if (content.includes('[staticcall]')) {
-        callType = 'staticcall';
-      } else if (content.includes('[call]')) {
-        callType = 'call';
-      } else if (content.includes('[delegatecall]')) {
-        callType = 'delegatecall';
-      }
-
-      // Check if this is a return line
-      const isReturn = content.includes('← [Return]') || content.includes('← [Stop]');
-
-      // Check if this is an event emission
-      const isEvent = content.includes('emit ');
-
-      // Create trace object with unique ID and parsed data
-      const trace: Trace = {
-        id: `trace-${lineId++}`,
-        content,
-        children: [],
-        depth,
-        contractName,
-        functionName,
-        callType,
-        isReturn,
-        isEvent,
-        raw: content,
-        rowIndex: lineId // For alternating row colors
-      };
-
-      // Add to appropriate level in the tree
-      if (depth === 0) {
-        // Root level trace
-        rootTraces.push(trace);
-        currentStack = [trace];
-      } else if (depth <= currentStack.length) {
-        // Going back up or staying at the same level
-        currentStack = currentStack.slice(0, depth);
-        currentStack[depth - 1].children.push(trace);
-        currentStack.push(trace);
-      } else if (depth > currentStack.length && currentStack.length > 0) {
-        // Going deeper but potentially skipped levels
-        const parent = currentStack[currentStack.length - 1];
-        parent.children.push(trace);
-        currentStack.push(trace);
-      }
+    setLoading(true);
+    setParseProgress(0);
+    try {
+      await loadComparison(file, setParseProgress);
+      setViewMode('diff');
+    } catch (error) {
+      console.error("Error parsing comparison file:", error);
+    } finally {
+      setLoading(false);
     }
+  };
 
-    return rootTraces;
+  const closeComparison = () => {
+    clearComparison();
+    setViewMode('tree');
   };
 
+  // Re-parse whenever the companion CLI pushes new output
+  useLiveTrace((text, name) => parseTraceText(text, name, true));
+
   // Toggle expand/collapse for a trace item
   const toggleExpand = (traceId: string, trace: Trace) => {
     setExpandedItems(prev => {
@@ -214,32 +424,17 @@ const DarkEnhancedTraceViewer = () => {
         // When collapsing, remove this trace from expanded items
         newSet.delete(traceId);
 
-        // Update the sidebar to show the parent's children if available
-        if (expandedHistory.length > 1) {
-          // Remove the current trace from history
-          const newHistory = [...expandedHistory];
-          newHistory.pop();
-          // Set the previous trace as the current one
-          const previousTrace = newHistory[newHistory.length - 1];
-          setLastExpandedTrace(previousTrace);
-          setExpandedHistory(newHistory);
+        // The sidebar leaves frames the collapse hid: a frame below the
+        // collapsed one shows the collapsed frame, the collapsed frame its parent
+        if (sidebarFrame?.id === trace.id && trace.parent) {
+          showInSidebar(trace.parent);
+        } else if (sidebarFrame && getAncestors(sidebarFrame).includes(trace)) {
+          showInSidebar(trace);
         }
       } else {
         // When expanding, add this trace to expanded items
         newSet.add(traceId);
-        // Update the last expanded trace when expanding
-        setLastExpandedTrace(trace);
-        // Add to history - check if this trace is already in history to avoid duplicates
-        setExpandedHistory(prev => {
-          // Check if this trace is already in the history by ID
-          const traceExists = prev.some(historyTrace => historyTrace.id === trace.id);
-          if (traceExists) {
-            // If it exists, remove it first to avoid duplicates
-            const filteredHistory = prev.filter(historyTrace => historyTrace.id !== trace.id);
-            return [...filteredHistory, trace];
-          }
-          return [...prev, trace];
-        });
+        showInSidebar(trace);
       }
       return newSet;
     });
@@ -247,50 +442,76 @@ const DarkEnhancedTraceViewer = () => {
 
   // Scroll to a specific trace item
   const scrollToTrace = (traceId: string) => {
-    if (traceRefs.current[traceId]) {
-      // Expand all parent traces to make sure the target is visible
-      // Flatten the trace tree to find the target trace
-      const flattenTraces = (traces: Trace[]): Trace[] => {
-        return traces.reduce((acc: Trace[], trace: Trace) => {
-          acc.push(trace);
-          if (trace.children && trace.children.length > 0) {
-            acc.push(...flattenTraces(trace.children));
-          }
-          return acc;
-        }, []);
-      };
+    // Expand all parent traces to make sure the target is visible
+    const target = traceIndex.get(traceId);
+    if (target?.parent) {
+      setExpandedItems(prev => {
+        const newSet = new Set(prev);
+        for (let ancestor = target.parent; ancestor; ancestor = ancestor.parent) {
+          newSet.add(ancestor.id);
+        }
+        return newSet;
+      });
+    }
 
-      let currentTrace = flattenTraces(traces).find(t => t.id === traceId);
-      while (currentTrace && currentTrace.parent) {
-        setExpandedItems(prev => {
-          const newSet = new Set(prev);
-          if (currentTrace && currentTrace.parent) {
-            newSet.add(currentTrace.parent.id);
-          }
-          return newSet;
-        });
-        currentTrace = currentTrace.parent;
-      }
+    // The list scrolls once the row exists, then calls highlightRow
+    setScrollRequest({ key: traceId });
+  };
 
-      // Small delay to allow DOM to update after expanding parents
-      setTimeout(() => {
-        if (traceRefs.current[traceId]) {
-          traceRefs.current[traceId].scrollIntoView({ behavior: 'smooth', block: 'center' });
-
-          // Highlight the item briefly
-          const element = traceRefs.current[traceId];
-          element.classList.add('pulse-highlight');
-          setTimeout(() => {
-            element.classList.remove('pulse-highlight');
-          }, 1500);
-        }
-      }, 50);
+  // Highlight a row briefly after scrolling to it
+  const highlightRow = (traceId: string) => {
+    const element = traceRefs.current[traceId];
+    if (!element) return;
+
+    element.classList.add('pulse-highlight');
+    setTimeout(() => {
+      element.classList.remove('pulse-highlight');
+    }, 1500);
+  };
+
+  // Scroll to the next root cause of a revert, cycling through all of them
+  const jumpToRootCause = () => {
+    const { rootCauses } = revertAnalysis;
+    if (rootCauses.length === 0) return;
+
+    const index = rootCauseIndex % rootCauses.length;
+    setViewMode('tree');
+    scrollToTrace(rootCauses[index].id);
+    setRootCauseIndex(index + 1);
+  };
+
+  // Show only the traces of one test (or all of them), keeping the search in sync
+  const selectTest = (test: TestResult | null) => {
+    setSelectedTest(test);
+    setRootCauseIndex(0);
+    clearSidebarHistory();
+    runSearch(searchTerm, test ? test.traces : traces);
+  };
+
+  // Jump from a flame graph block or a side panel back to its frame in the tree.
+  // The noise filters hiding it are lifted and flat search results left,
+  // or there would be no row to scroll to.
+  const selectFrame = (trace: Trace) => {
+    // The frame's own category, or a hidden setUp it runs under
+    const blocking = [getNoiseCategory(trace), ...getAncestors(trace).map(getNoiseCategory).filter(category => category === 'setUp')]
+      .filter(category => category && hiddenCategories.has(category));
+    const hidden = blocking.length > 0
+      ? new Set([...hiddenCategories].filter(category => !blocking.includes(category)))
+      : hiddenCategories;
+
+    if (searchMode && !searchInContext) {
+      clearSearch();
+      setHiddenCategories(hidden);
+    } else if (hidden !== hiddenCategories) {
+      changeHiddenCategories(hidden);
     }
+    setViewMode('tree');
+    scrollToTrace(trace.id);
   };
 
   // Expand all items
   const expandAll = () => {
-    const allIds = getAllTraceIds(traces);
+    const allIds = getAllTraceIds(visibleTraces);
     setExpandedItems(new Set(allIds));
 
     // Keep the current expanded trace in the sidebar
@@ -300,24 +521,116 @@ const DarkEnhancedTraceViewer = () => {
   // Collapse all items
   const collapseAll = () => {
     // Keep only top-level traces expanded
-    const topLevelIds = new Set(traces.map(trace => trace.id));
+    const topLevelIds = new Set(visibleTraces.map(trace => trace.id));
     setExpandedItems(topLevelIds);
 
     // Reset sidebar to show no expanded section
-    setLastExpandedTrace(null);
-    setExpandedHistory([]);
+    clearSidebarHistory();
   };
 
-  // Get all trace IDs recursively
-  const getAllTraceIds = (traces: Trace[]): string[] => {
-    const ids: string[] = [];
+  // Move the keyboard cursor to a frame, keeping it in view and showing
+  // its siblings in the sidebar
+  const focusTrace = (traceId: string) => {
+    setFocusedId(traceId);
+    setScrollRequest({ key: traceId, quiet: true });
+    // Moving the cursor doesn't fill the sidebar history
+    const parent = traceIndex.get(traceId)?.parent;
+    if (parent) showInSidebar(parent, true);
+  };
 
-    const collectIds = (trace: Trace) => {
-      ids.push(trace.id);
-      trace.children.forEach(collectIds);
+  // Keyboard navigation over the rows on screen. Return rows are skipped.
+  const navigate = (action: 'next' | 'previous' | 'expand' | 'collapse' | 'toggle' | 'parent' | 'nextSibling' | 'previousSibling' | 'expandSubtree') => {
+    const index = rows.findIndex(row => !row.isReturn && row.key === focusedId);
+    const firstFrame = rows.find(row => !row.isReturn);
+    if (index === -1) {
+      if (firstFrame) focusTrace(firstFrame.key);
+      return;
+    }
+
+    const row = rows[index];
+    const isExpanded = expandedItems.has(row.trace.id);
+    const findFrom = (start: number, step: 1 | -1, matches: (candidate: TraceRow) => boolean | null) => {
+      for (let i = start; i >= 0 && i < rows.length; i += step) {
+        if (rows[i].isReturn) continue;
+        const result = matches(rows[i]);
+        if (result === null) return;
+        if (result) return focusTrace(rows[i].key);
+      }
     };
+    // Stop at the end of the parent's children, when depth drops below the row's
+    const sibling = (candidate: TraceRow) => (candidate.depth < row.depth ? null : candidate.depth === row.depth);
+
+    switch (action) {
+      case 'next':
+        return findFrom(index + 1, 1, () => true);
+      case 'previous':
+        return findFrom(index - 1, -1, () => true);
+      case 'expand':
+        if (row.childCount > 0 && !isExpanded) return toggleExpand(row.trace.id, row.trace);
+        if (isExpanded) return findFrom(index + 1, 1, () => true);
+        return;
+      case 'collapse':
+        if (row.childCount > 0 && isExpanded) return toggleExpand(row.trace.id, row.trace);
+        return findFrom(index - 1, -1, candidate => candidate.depth < row.depth);
+      case 'toggle':
+        if (row.childCount > 0) toggleExpand(row.trace.id, row.trace);
+        return;
+      case 'parent':
+        return findFrom(index - 1, -1, candidate => candidate.depth < row.depth);
+      case 'nextSibling':
+        return findFrom(index + 1, 1, sibling);
+      case 'previousSibling':
+        return findFrom(index - 1, -1, sibling);
+      case 'expandSubtree': {
+        const ids: string[] = [];
+        walkTraces([row.trace], trace => ids.push(trace.id));
+        setExpandedItems(prev => new Set([...prev, ...ids]));
+        return;
+      }
+    }
+  };
+
+  // Jump to the next frame (in tree order, after the cursor) that failed
+  const focusNextRevert = () => {
+    const order: Trace[] = [];
+    walkVisibleTraces(visibleTraces, hiddenCategories, trace => order.push(trace));
+    const start = order.findIndex(trace => trace.id === focusedId);
+    for (let offset = 1; offset <= order.length; offset++) {
+      const trace = order[(start + offset) % order.length];
+      if (trace.kind === 'call' && isFailure(trace)) {
+        setFocusedId(trace.id);
+        scrollToTrace(trace.id);
+        return;
+      }
+    }
+  };
 
-    traces.forEach(collectIds);
+  useKeyboardShortcuts({
+    j: () => navigate('next'),
+    ArrowDown: () => navigate('next'),
+    k: () => navigate('previous'),
+    ArrowUp: () => navigate('previous'),
+    l: () => navigate('expand'),
+    ArrowRight: () => navigate('expand'),
+    h: () => navigate('collapse'),
+    ArrowLeft: () => navigate('collapse'),
+    Enter: () => navigate('toggle'),
+    p: () => navigate('parent'),
+    ']': () => navigate('nextSibling'),
+    '[': () => navigate('previousSibling'),
+    '*': () => navigate('expandSubtree'),
+    r: focusNextRevert,
+    b: () => stepSidebarHistory(-1),
+    f: () => stepSidebarHistory(1),
+    '/': () => searchInputRef.current?.focus(),
+    '?': () => setHelpOpen(prev => !prev),
+    Escape: () => setHelpOpen(false),
+  });
+
+  // Get all trace IDs recursively
+  const getAllTraceIds = (traces: Trace[]): string[] => {
+    const ids: string[] = [];
+    walkTraces(traces, trace => ids.push(trace.id));
     return ids;
   };
 
@@ -325,8 +638,49 @@ const DarkEnhancedTraceViewer = () => {
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     const term = e.target.value;
     setSearchTerm(term);
+    runSearch(term, visibleTraces);
+  };
+
+  // What a query can match a node by: its text, names decoded from
+  // artifacts and the labels of the addresses it mentions
+  const getSearchFields = (trace: Trace): SearchFields => {
+    const decoded = decodedTraces.get(trace.id);
+    const addressLabel = trace.address ? addressBook.getLabel(trace.address) : null;
+    const contracts = [trace.contractName, decoded?.contractName, addressLabel, trace.address]
+      .filter((name): name is string => !!name);
+    const functions = [trace.functionName, decoded?.name].filter((name): name is string => !!name);
+    const args = [
+      ...trace.args.map(arg => (arg.name ? `${arg.name}: ${arg.value}` : arg.value)),
+      ...(decoded?.args ?? []).map(arg => (arg.name ? `${arg.name}: ${arg.value}` : arg.value)),
+    ].join(', ');
+    const returns = [
+      trace.returnContent ?? '',
+      ...(decoded?.returnArgs ?? []).map(arg => arg.value),
+      decoded?.error?.name ?? '',
+    ].join('\n');
+
+    // Return lines are part of the frame they close, so match them too
+    let text = `${trace.content}\n${trace.returnContent ?? ''}`;
+    if (decoded?.name) text += `\n${decoded.contractName}::${decoded.name}`;
+    if (decoded?.error) text += `\n${decoded.error.name}`;
+    // Match addresses by their labels as well
+    text.match(ADDRESS_PATTERN)?.forEach(address => {
+      const label = addressBook.getLabel(address);
+      if (label) text += `\n${label}`;
+    });
+
+    return { text, contracts, functions, args, returns };
+  };
 
-    if (!term.trim()) {
+  // Find traces matching the search query within the given trees,
+  // leaving out nodes hidden by the noise filters
+  const runSearch = (term: string, scope: Trace[], hidden = hiddenCategories) => {
+    const { query, error } = parseQuery(term);
+    setSearchError(error);
+    // Keep the last results on screen while the query is being typed
+    if (error) return;
+
+    if (!query) {
       setHighlightedItems(new Set());
       setSearchMode(false);
       setFilteredTraces([]);
@@ -335,181 +689,383 @@ const DarkEnhancedTraceViewer = () => {
 
     // Set search mode to true when we have a search term
     setSearchMode(true);
+    setActiveMatch(null);
 
     const matches = new Set<string>();
+    const allMatchingTraces: Trace[] = [];
 
-    // Flatten all traces to find matches at any level
-    const flattenTraces = (traces: Trace[]): Trace[] => {
-      return traces.reduce((acc: Trace[], trace: Trace) => {
+    // Walk all traces to find matches at any level
+    walkVisibleTraces(scope, hidden, trace => {
+      if (matchesQuery(query, trace, getSearchFields(trace))) {
         // Create a copy of the trace without children to avoid nesting
-        if (trace.content.toLowerCase().includes(term.toLowerCase())) {
-          const traceCopy = { ...trace, children: [] };
-          acc.push(traceCopy);
-          matches.add(trace.id);
-        }
+        allMatchingTraces.push({ ...trace, children: [] });
+        matches.add(trace.id);
+      }
+    });
 
-        // Continue searching in children
-        if (trace.children && trace.children.length > 0) {
-          // Set parent reference for children
-          trace.children.forEach(child => {
-            child.parent = trace;
-          });
-          acc.push(...flattenTraces(trace.children));
-        }
+    // Update state with matching traces without blocking typing on big traces
+    startTransition(() => {
+      setFilteredTraces(allMatchingTraces);
+      setHighlightedItems(matches);
+      if (searchInContext) expandToMatches(allMatchingTraces);
+    });
+  };
 
-        return acc;
-      }, []);
-    };
+  const clearSearch = () => {
+    setSearchTerm('');
+    setSearchError(null);
+    setActiveMatch(null);
+    setSearchMode(false);
+    setFilteredTraces([]);
+    setHighlightedItems(new Set());
+  };
+
+  // Open exactly the frames that lead to search hits
+  const expandToMatches = (matchingTraces: Trace[]) => {
+    const ancestors = new Set<string>();
+    matchingTraces.forEach(trace => getAncestors(trace).forEach(ancestor => ancestors.add(ancestor.id)));
+    setExpandedItems(ancestors);
+  };
+
+  // Switch between the flat list of hits and hits shown in the tree
+  const toggleSearchInContext = () => {
+    if (!searchInContext) expandToMatches(filteredTraces);
+    setSearchInContext(!searchInContext);
+    if (activeMatch !== null) scrollToTrace(filteredTraces[activeMatch].id);
+  };
+
+  // Step through the hits in tree order, wrapping around at either end
+  const goToMatch = (step: 1 | -1) => {
+    if (filteredTraces.length === 0) return;
+    const count = filteredTraces.length;
+    const index = activeMatch === null ? (step === 1 ? 0 : count - 1) : (activeMatch + step + count) % count;
+    setActiveMatch(index);
+    scrollToTrace(filteredTraces[index].id);
+  };
+
+  // Short name of a frame for breadcrumbs
+  const describeFrame = (trace: Trace) => {
+    if (trace.kind !== 'call') return trace.content.split('\n')[0].substring(0, 40);
+    return `${getTargetName(trace)}::${decodedTraces.get(trace.id)?.name ?? trace.functionName}`;
+  };
+
+  // Children of a frame that pass the noise filters. Memoized, with the
+  // filtered roots, so the sequence layout only recomputes when they change.
+  const getFilteredChildren = useMemo(
+    () => (trace: Trace) => getVisibleChildren(trace.children, hiddenCategories).children,
+    [hiddenCategories]
+  );
+  const filteredRoots = useMemo(
+    () => getVisibleChildren(visibleTraces, hiddenCategories).children,
+    [visibleTraces, hiddenCategories]
+  );
+
+  // Export a subtree as it is shown: below the exported frame, collapsed
+  // frames are cut off and filtered nodes left out
+  const exportSubtree = (trace: Trace, format: ExportFormat, maxDepth: number | null) =>
+    exportTrace(trace, format, {
+      getChildren: node => (node === trace || expandedItems.has(node.id) ? getFilteredChildren(node) : []),
+      getTargetName,
+      maxDepth,
+    });
+
+  // Stable, so the menu's window listeners aren't re-added on every render
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+
+  const openContextMenu = (event: React.MouseEvent, trace: Trace) => {
+    event.preventDefault();
+    setContextMenu({ trace, x: event.clientX, y: event.clientY });
+  };
+
+  // Highlight addresses and hashes in free-form text
+  const highlightAddresses = (content: string) => {
+    if (!content.includes('0x')) return content;
+
+    const parts = content.split(/(0x[a-fA-F0-9]+)/);
+    return (
+      <>
+        {parts.map((part: string, index: number) => {
+          // Create a unique key for each part
+          const partKey = `addr-${index}-${part.length}`;
+
+          if (isAddress(part)) {
+            // Addresses show their label, if we know one
+            return (
+              <AddressLabel key={partKey} address={part} label={addressBook.getLabel(part)} onRename={addressBook.setLabel} />
+            );
+          } else if (part.match(/0x[a-fA-F0-9]+/)) {
+            return <span key={partKey} className="text-cyan-400">{part}</span>;
+          } else {
+            return <React.Fragment key={partKey}>{part}</React.Fragment>;
+          }
+        })}
+      </>
+    );
+  };
+
+  // Decimals of the token a value belongs to: the called contract, or the one emitting an event
+  const getDecimals = (trace: Trace) => {
+    const frame = trace.kind === 'event' ? trace.parent : trace;
+    return (frame && tokenDecimals.get(getTokenKey(frame))) ?? defaultDecimals;
+  };
+
+  // Switch one value to the next format that changes how it looks
+  const cycleValueFormat = (key: string, format: NumberFormat, value: bigint, decimals: number) => {
+    const index = NUMBER_FORMATS.findIndex(candidate => candidate.format === format);
+    const next = [...NUMBER_FORMATS.slice(index + 1), ...NUMBER_FORMATS.slice(0, index)].find(
+      candidate => candidate.format === 'raw' || formatNumber(value, candidate.format, decimals) !== null
+    );
+    setValueFormats(prev => new Map(prev).set(key, next?.format ?? 'raw'));
+  };
+
+  // Render an argument or return value; numbers follow the display format.
+  // `key` identifies the value for its own format.
+  const renderValue = (text: string, trace: Trace, key: string) => {
+    const value = parseNumber(text);
+    if (value === null) return highlightAddresses(text);
 
-    // Find all matching traces
-    const allMatchingTraces = flattenTraces(traces);
+    const format = valueFormats.get(key) ?? numberFormat;
+    const decimals = getDecimals(trace);
+    return (
+      <span className={text.startsWith('0x') ? 'text-cyan-400' : undefined}>
+        <NumericValue
+          text={text}
+          value={value}
+          format={format}
+          decimals={decimals}
+          onCycle={() => cycleValueFormat(key, format, value, decimals)}
+        />
+      </span>
+    );
+  };
+
+  // Render a parsed argument list, colouring each argument by position
+  const renderArgs = (args: TraceArg[], trace: Trace, slot: string) => (
+    <>
+      <span className="text-gray-400">(</span>
+      {args.map((arg, index) => (
+        <React.Fragment key={`arg-${index}`}>
+          {index > 0 && <span className="text-gray-400">, </span>}
+          {arg.name && <span className="text-gray-400">{arg.name}: </span>}
+          <span className={`${textColors[index % textColors.length]}`}>
+            {renderValue(arg.value, trace, `${trace.id}:${slot}-${index}`)}
+          </span>
+        </React.Fragment>
+      ))}
+      <span className="text-gray-400">)</span>
+    </>
+  );
+
+  // Render the `← ...` line that closed a frame, in red when it failed
+  const renderReturn = (trace: Trace) => {
+    const parts = (trace.returnContent ?? '').split('←');
+    const statusColor = isFailure(trace) ? 'text-red-400' : 'text-green-400';
+
+    // Prefer values decoded from artifacts over raw hex
+    const decoded = decodedTraces.get(trace.id);
+    const tag = trace.returnContent?.match(/^←\s*(\[[A-Za-z]+\])?/)?.[0] ?? '←';
+    if (decoded?.error || decoded?.returnArgs) {
+      return (
+        <span title={trace.returnContent ?? undefined}>
+          <span className="text-gray-400">{tag} </span>
+          {decoded.error && <span className={`${statusColor} font-bold`}>{decoded.error.name}</span>}
+          {renderArgs(decoded.error ? decoded.error.args : decoded.returnArgs ?? [], trace, 'return')}
+        </span>
+      );
+    }
+
+    // Plain return values get the same number formats as arguments
+    const values = trace.returnData ? splitArgs(trace.returnData) : [];
+    if (values.some(value => parseNumber(value) !== null)) {
+      return (
+        <>
+          <span className="text-gray-400">{tag} </span>
+          <span className={`${statusColor} font-bold`}>
+            {values.map((value, index) => (
+              <React.Fragment key={`return-${index}`}>
+                {index > 0 && ', '}
+                {renderValue(value, trace, `${trace.id}:return-${index}`)}
+              </React.Fragment>
+            ))}
+          </span>
+        </>
+      );
+    }
 
-    // Update state with matching traces
-    setFilteredTraces(allMatchingTraces);
-    setHighlightedItems(matches);
+    return (
+      <>
+        <span className="text-gray-400">{parts[0] + '←'}</span>
+        <span className={`${statusColor} font-bold`}>{highlightAddresses(parts.slice(1).join('←'))}</span>
+      </>
+    );
   };
 
-  // Syntax highlighting for different types of trace content
-  const highlightSyntax = (content: string, childCount: number) => {
-    // Function to create spans with appropriate classes
-    const createSpan = (text: string, className: string) => (
-      <span key={Math.random()} className={className}>{text}</span>
+  // Label reverted frames as the original revert, a bubbled-up one, or a caught one
+  const renderRevertBadge = (trace: Trace) => {
+    if (!isFailure(trace)) return null;
+
+    let label = '✖ reverted';
+    let style = 'bg-red-800 text-red-100';
+    if (revertAnalysis.rootCauses.includes(trace)) {
+      label = '🎯 root cause';
+      style = 'bg-red-600 text-white';
+    } else if (getBubbledFrom(trace)) {
+      label = '↑ bubbled';
+      style = 'bg-red-900 text-red-200';
+    } else if (trace.parent && getBubbledFrom(trace.parent) !== trace) {
+      // The caller carried on (try/catch, expectRevert, ...)
+      label = '✖ caught';
+      style = 'bg-gray-700 text-red-300';
+    }
+
+    return (
+      <span className={`${style} ml-2 px-1 rounded text-xs whitespace-nowrap not-italic`}>{label}</span>
     );
+  };
+
+  // Syntax highlighting for different kinds of trace nodes
+  const highlightSyntax = (trace: Trace) => {
+    const decoded = decodedTraces.get(trace.id);
 
-    // Match different parts of the trace
-    if (content.includes('└─ ←') || content.includes('│   └─ ←') || content.includes('├─ ←')) {
-      // Return values
-      const parts = content.split('←');
+    if (trace.kind === 'event' && trace.functionName) {
       return (
         <>
-          {createSpan(parts[0] + '←', 'text-gray-400')}
-          {createSpan(parts.slice(1).join('←'), 'text-green-400 font-bold')}
+          <span className="text-gray-400">emit </span>
+          <span className="text-black event-text">{trace.functionName}</span>
+          {renderArgs(trace.args, trace, 'arg')}
         </>
       );
-    } else if (content.includes('emit ')) {
-      // Event emissions
-      const parts = content.split('emit ');
+    } else if (trace.kind === 'event' && decoded?.name) {
+      // Raw log decoded with an artifact's event ABI
+      return (
+        <span title={trace.content}>
+          <span className="text-gray-400">emit </span>
+          <span className="text-black event-text">{decoded.name}</span>
+          {renderArgs(decoded.args ?? [], trace, 'arg')}
+        </span>
+      );
+    } else if (trace.kind === 'event') {
+      // Undecoded log: topics and data as forge printed them
+      return <span className="text-black event-text">{trace.content}</span>;
+    } else if (trace.kind === 'call' && isCreation(trace)) {
       return (
         <>
-          {createSpan(parts[0] + 'emit ', 'text-gray-400')}
-          {createSpan(parts.slice(1).join('emit '), 'text-black event-text')}
+          <React.Fragment>{`[${trace.children.length}]`} </React.Fragment>
+          <span className="text-gray-400">→ new </span>
+          <span className="text-green-300">{trace.contractName ?? '<unknown>'}</span>
+          <span className="text-gray-400">@</span>
+          {highlightAddresses(trace.address ?? '')}
+          {trace.value !== null && (
+            <span className="text-gray-400">
+              {'{value: '}{renderValue(trace.value, trace, `${trace.id}:value`)}{'}'}
+            </span>
+          )}
+          {trace.callType === 'create2' && <React.Fragment> [create2]</React.Fragment>}
+          {trace.children.length === 0 && trace.returnContent && (
+            <> {renderReturn(trace)}</>
+          )}
         </>
       );
-    } else if (content.match(/([A-Za-z0-9_]+)::([A-Za-z0-9_]+)\((.*)\)/)) {
-      // Function calls with contract::function(args) format
-      const match = content.match(/([A-Za-z0-9_]+)::([A-Za-z0-9_]+)\((.*)\)/);
-      if (match) {
-        const [fullMatch, contractName, functionName, args] = match;
-        const afterMatch = content.substring(content.indexOf(fullMatch) + fullMatch.length);
-
-        // Handle multiple arguments by splitting by commas, but only at the top level
-        // (not inside nested parentheses)
-        const processArgs = (argsStr: string): string[] => {
-          const result = [];
-          let currentArg = '';
-          let parenDepth = 0;
-
-          for (let i = 0; i < argsStr.length; i++) {
-            const char = argsStr[i];
-            if (char === '(' || char === '[' || char === '{') {
-              parenDepth++;
-              currentArg += char;
-            } else if (char === ')' || char === ']' || char === '}') {
-              parenDepth--;
-              currentArg += char;
-            } else if (char === ',' && parenDepth === 0) {
-              result.push(currentArg.trim());
-              currentArg = '';
-            } else {
-              currentArg += char;
-            }
-          }
+    } else if (trace.kind === 'call') {
+      const afterArgs = trace.callType && trace.callType !== 'call' ? ` [${trace.callType}]` : '';
 
-          if (currentArg.trim()) {
-            result.push(currentArg.trim());
-          }
-
-          return result;
-        };
-
-        const argsList = processArgs(args);
-
-        return (
-          <>
-            {`[${childCount}]` && <React.Fragment>{`[${childCount}]`} </React.Fragment>}
-            <span className="text-blue-300">{contractName}</span>
-            <span className="text-gray-400">::</span>
-            <span className="text-white">{functionName}</span>
-            <span className="text-gray-400">(</span>
-            {argsList.map((arg: string, index: number) => (
-              <React.Fragment key={`arg-${index}`}>
-                {index > 0 && <span className="text-gray-400">, </span>}
-                {<span className={`${textColors[index % textColors.length]}`}>{arg}</span>}
-              </React.Fragment>
-            ))}
-            <span className="text-gray-400">)</span>
-            {afterMatch && <React.Fragment>{afterMatch}</React.Fragment>}
-          </>
-        );
-      }
-      return content;
-    }else if (content.includes('0x')) {
-      // Highlight addresses and hashes
-      const parts = content.split(/(0x[a-fA-F0-9]+)/);
       return (
         <>
-          {parts.map((part: string, index: number) => {
-            // Create a unique key for each part
-            const partKey = `addr-${index}-${part.length}`;
-
-            if (part.match(/0x[a-fA-F0-9]+/)) {
-              return <span key={partKey} className="text-cyan-400">{part}</span>;
-            } else {
-              return <React.Fragment key={partKey}>{part}</React.Fragment>;
-            }
-          })}
+          <React.Fragment>{`[${trace.children.length}]`} </React.Fragment>
+          {trace.contractName === null && decoded?.contractName ? (
+            // Unlabelled target whose selector matched an artifact
+            <span className="text-blue-300 underline decoration-dotted" title={trace.address ?? undefined}>
+              {decoded.contractName}
+            </span>
+          ) : (
+            <span className="text-blue-300">{trace.contractName ?? highlightAddresses(trace.address ?? '')}</span>
+          )}
+          <span className="text-gray-400">::</span>
+          {decoded?.name ? (
+            <span className="text-white" title={`Decoded from artifacts\n${trace.content}`}>{decoded.name}</span>
+          ) : (
+            <span className="text-white">{trace.functionName}</span>
+          )}
+          {trace.value !== null && (
+            <span className="text-gray-400">
+              {'{value: '}{renderValue(trace.value, trace, `${trace.id}:value`)}{'}'}
+            </span>
+          )}
+          {renderArgs(decoded?.args ?? trace.args, trace, 'arg')}
+          {afterArgs && <React.Fragment>{afterArgs}</React.Fragment>}
+          {/* Leaf frames show their return value inline */}
+          {trace.children.length === 0 && trace.returnContent && (
+            <> {renderReturn(trace)}</>
+          )}
         </>
       );
     }
 
     // Default rendering if no special syntax is detected
-    return content;
+    return highlightAddresses(trace.content);
+  };
+
+  // Apply new noise filters, re-running the search so its results match
+  const changeHiddenCategories = (hidden: Set<NoiseCategory>) => {
+    setHiddenCategories(hidden);
+    if (searchTerm) runSearch(searchTerm, visibleTraces, hidden);
   };
 
-  // Recursively render a trace and its children
-  const renderTrace = (trace: Trace, lineIndex = 0) => {
-    const hasChildren = trace.children && trace.children.length > 0;
+  // Render a single row of the flattened tree
+  const renderRow = ({ trace, isReturn, depth, childCount, hiddenCount }: TraceRow) => {
+    if (isReturn) {
+      // Special styling for the return line closing the frame
+      return (
+        <div
+          className={`trace-item ${depthColors[depth % depthColors.length]} border-l-2 ${isFailure(trace) ? 'border-red-500' : 'border-green-500'}`}
+        >
+          <div
+            className="flex items-start py-1 font-mono text-sm whitespace-pre-wrap break-all text-gray-200"
+            style={{ paddingLeft: `${depth * 20}px` }}
+          >
+            <span className="mr-2 w-4"></span>
+            <div>{renderReturn(trace)}</div>
+          </div>
+        </div>
+      );
+    }
+
+    const hasChildren = childCount > 0;
     const isExpanded = expandedItems.has(trace.id);
     const isHighlighted = highlightedItems.has(trace.id);
+    const bookmark = bookmarks.find(candidate => candidate.traceId === trace.id);
+    const isActiveMatch = activeMatch !== null && filteredTraces[activeMatch]?.id === trace.id;
+    // In-context search results fade everything but the hits
+    const isDimmed = searchMode && searchInContext && !isHighlighted;
 
     // Get background color based on call depth or event type
-    let depthColor = depthColors[trace.depth % depthColors.length];
+    let depthColor = depthColors[depth % depthColors.length];
 
     // Override with yellow background for event emissions
-    if (trace.isEvent) {
+    if (trace.kind === 'event') {
       depthColor = 'bg-yellow-400 text-black border border-dotted border-blue-900 italic';
     }
 
-    // Special styling for returns
-    const returnStyle = trace.isReturn ? 'border-l-2 border-green-500' : '';
-
-    // Create a more unique key by combining the trace ID with its depth and content hash
-    const contentHash = trace.content.length.toString(16);
-    const uniqueKey = `${trace.id}-${trace.depth}-${contentHash}`;
+    // Mark every frame on the way from a failing root to its root cause
+    const failingStyle = revertAnalysis.failingPath.has(trace.id) ? 'border-l-4 border-red-500' : '';
 
     return (
       <div
-        key={uniqueKey}
         ref={(el: HTMLDivElement | null) => {
           if (el) traceRefs.current[trace.id] = el;
+          else delete traceRefs.current[trace.id];
         }}
-        className={`trace-item ${depthColor} ${returnStyle} ${isHighlighted ? 'bg-purple-700 !bg-opacity-40' : ''}`}
+        className={`trace-item ${depthColor} ${failingStyle} ${isHighlighted ? 'bg-purple-700 !bg-opacity-40' : ''} ${isDimmed ? 'opacity-40' : ''} ${isActiveMatch ? 'ring-2 ring-yellow-400' : ''} ${trace.id === focusedId ? 'outline outline-1 outline-blue-400' : ''}`}
+        onContextMenu={e => openContextMenu(e, trace)}
       >
         <div className="flex break-all">
           <div
             className="trace-header flex items-start py-1 hover:bg-gray-900 hover:bg-opacity-50 cursor-pointer flex-grow"
-            onClick={() => hasChildren && toggleExpand(trace.id, trace)}
-            style={{ paddingLeft: `${trace.depth * 20}px` }}
+            onClick={() => {
+              setFocusedId(trace.id);
+              if (hasChildren) toggleExpand(trace.id, trace);
+            }}
+            style={{ paddingLeft: `${depth * 20}px` }}
           >
             {hasChildren && (
               <span className="mr-2 text-gray-400 w-4">
@@ -518,64 +1074,150 @@ const DarkEnhancedTraceViewer = () => {
             )}
             {!hasChildren && <span className="mr-2 w-4"></span>}
             <div className="font-mono text-sm whitespace-pre-wrap text-gray-200">
-              {highlightSyntax(trace.content, trace.children ? trace.children.length : 0)}
+              {searchMode && isHighlighted && trace.parent && (
+                // Where the hit lives in the call tree
+                <div className="text-xs text-gray-400 not-italic truncate" title={getAncestors(trace).map(describeFrame).join('\n')}>
+                  {getAncestors(trace).map(describeFrame).join(' › ')}
+                </div>
+              )}
+              {highlightSyntax(trace)}
+              {renderRevertBadge(trace)}
+              {trace.storageChanges.length > 0 && (
+                // Per-frame storage diff
+                <span
+                  className="ml-2 px-1 rounded text-xs whitespace-nowrap not-italic bg-indigo-800 text-indigo-100"
+                  title={trace.storageChanges.map(change => `@ ${change.slot}: ${change.oldValue} → ${change.newValue}`).join('\n')}
+                >
+                  💾 {trace.storageChanges.length}
+                </span>
+              )}
+              {hiddenCount > 0 && (
+                // Children left out by the noise filters
+                <span className="ml-2 px-1 rounded text-xs whitespace-nowrap not-italic bg-gray-700 text-gray-300">
+                  {hiddenCount} hidden
+                </span>
+              )}
             </div>
           </div>
-
+          <button
+            onClick={() => toggleBookmark(trace.id)}
+            className={`flex-shrink-0 px-1 self-start py-1 text-sm ${bookmark ? 'text-yellow-400' : 'text-gray-600 opacity-0 hover:opacity-100 hover:text-yellow-300'}`}
+            title={bookmark ? bookmark.note || 'Remove bookmark' : 'Bookmark this frame'}
+          >
+            {bookmark ? '★' : '☆'}
+          </button>
+          {trace.gas !== null && (
+            <div className="flex flex-shrink-0 py-1 pr-2 font-mono text-xs text-gray-400 whitespace-nowrap">
+              <span className="w-24 text-right" title="Inclusive gas">{formatGas(trace.gas)}</span>
+              <span className="w-24 text-right text-orange-300" title="Self gas">{formatGas(getSelfGas(trace))}</span>
+            </div>
+          )}
         </div>
-
-        {hasChildren && isExpanded && !searchMode && (
-          <div className="trace-children">
-            {trace.children.map((child: Trace, idx: number) => {
-              // Create a more unique key for each child element
-              const childKey = `child-${child.id}-${idx}-${trace.id}`;
-              // Pass the current trace's index as the parent index for the child
-              return <React.Fragment key={childKey}>{renderTrace(child, lineIndex + idx + 1)}</React.Fragment>;
-            })}
-          </div>
-        )}
       </div>
     );
   };
 
-  // Render sidebar with children of last expanded trace
-  const renderSidebar = () => {
-    if (!lastExpandedTrace || !lastExpandedTrace.children || lastExpandedTrace.children.length === 0) {
-      return (
-        <div className="text-gray-500 text-sm p-4">
-          No expanded section with children
-        </div>
-      );
-    }
+  // A frame with its children and return line, as shown in the sidebar and
+  // its pinned columns. `onOpen` moves the column to one of the children.
+  const renderFrameColumn = (frame: Trace, onOpen: (child: Trace) => void) => {
+    const sidebarChildren = getVisibleChildren(frame.children, hiddenCategories);
 
     return (
       <div className="p-2">
         <div className="text-sm font-medium text-gray-300 mb-2 border-b border-gray-700 pb-2 break-all max-h-24 overflow-y-auto">
-          {highlightSyntax(lastExpandedTrace.content, lastExpandedTrace.children.length)}
+          {highlightSyntax(frame)}
         </div>
         <div className="space-y-1">
-          {lastExpandedTrace.children.map((child: Trace, index: number) => {
+          {frame.children.length === 0 && <div className="text-gray-500 text-xs px-1">No children</div>}
+          {sidebarChildren.hiddenCount > 0 && (
+            <div className="text-xs text-gray-500 px-1">{sidebarChildren.hiddenCount} hidden by filters</div>
+          )}
+          {sidebarChildren.children.map((child: Trace) => {
             let depthColor = depthColors[child.depth % depthColors.length];
             // Override with yellow background for event emissions
-            if (child.isEvent) {
+            if (child.kind === 'event') {
               depthColor = 'bg-yellow-400 text-black border border-dotted border-white border-3 italic';
             }
-            const returnStyle = child.isReturn ? 'border-l-2 border-green-500' : '';
-            // Create a more unique key by adding a timestamp or random value
-            const uniqueSidebarKey = `sidebar-${child.id}-${index}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
-
             return (
               <div
-                key={uniqueSidebarKey}
+                key={`sidebar-${child.id}`}
+                // Keep the keyboard cursor's frame visible in the sidebar too
+                ref={el => {
+                  if (el && child.id === focusedId) el.scrollIntoView({ block: 'nearest' });
+                }}
                 onClick={() => scrollToTrace(child.id)}
-                className={`${depthColor} ${returnStyle} p-2 rounded text-xs cursor-pointer hover:bg-gray-700 sidebar-item truncate mb-1`}
+                onContextMenu={e => openContextMenu(e, child)}
+                className={`${depthColor} p-2 rounded text-xs cursor-pointer hover:bg-gray-700 sidebar-item mb-1 flex gap-1 ${child.id === focusedId ? 'ring-2 ring-blue-400' : ''}`}
                 title={child.content}
               >
-                {highlightSyntax(child.content, child.children ? child.children.length : 0)}
+                <span className="truncate flex-grow">{highlightSyntax(child)}</span>
+                {child.children.length > 0 && (
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      onOpen(child);
+                    }}
+                    className="text-gray-400 hover:text-white"
+                    title="Show this frame's children here"
+                  >
+                    ›
+                  </button>
+                )}
               </div>
             );
           })}
+          {frame.returnContent && (
+            <div
+              className={`${depthColors[(frame.depth + 1) % depthColors.length]} border-l-2 ${isFailure(frame) ? 'border-red-500' : 'border-green-500'} p-2 rounded text-xs truncate mb-1`}
+              title={frame.returnContent}
+            >
+              {renderReturn(frame)}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Back/forward, pin and the path to the frame the sidebar shows
+  const renderSidebarNavigation = (frame: Trace) => {
+    const pinned = pinnedFrames.some(trace => trace.id === frame.id);
+    return (
+      <div className="px-2 pt-2 pb-1 border-b border-gray-700">
+        <div className="flex items-center gap-1 mb-1 text-xs">
+          <button
+            onClick={() => stepSidebarHistory(-1)}
+            disabled={sidebarHistory.index <= 0}
+            className="px-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-gray-700"
+            title="Back (b)"
+          >
+            ◀
+          </button>
+          <button
+            onClick={() => stepSidebarHistory(1)}
+            disabled={sidebarHistory.index >= sidebarHistory.frames.length - 1}
+            className="px-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-30 disabled:hover:bg-gray-700"
+            title="Forward (f)"
+          >
+            ▶
+          </button>
+          <span className="text-gray-500 flex-grow">{sidebarHistory.index + 1}/{sidebarHistory.frames.length}</span>
+          <button
+            onClick={() => togglePin(frame)}
+            className={`px-1 rounded ${pinned ? 'bg-amber-700 hover:bg-amber-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            title={pinned ? 'Unpin' : `Pin next to the sidebar to compare (up to ${MAX_PINNED_FRAMES})`}
+          >
+            📌
+          </button>
         </div>
+        <FrameBreadcrumb
+          frame={frame}
+          describe={describeFrame}
+          onSelect={trace => {
+            showInSidebar(trace);
+            scrollToTrace(trace.id);
+          }}
+        />
       </div>
     );
   };
@@ -583,30 +1225,74 @@ const DarkEnhancedTraceViewer = () => {
   // Render main component UI
   return (
     <div className="flex max-w-full bg-gray-900 text-gray-200 min-h-screen">
-      {/* Sidebar - fixed position for entire viewport height */}
-      <div className="w-64 bg-gray-800 border-r border-gray-700 overflow-hidden font-mono text-sm fixed top-0 bottom-0 left-0 z-10">
-        <div className="overflow-y-auto h-[calc(100%-20px)]">
-          {lastExpandedTrace ? renderSidebar() : (
-            <div className="text-gray-500 text-sm p-4">
-              {traces.length > 0 ? (
-                <>
-                  <p className="mb-2">No expanded section with children</p>
-                  <p className="text-xs">Click the ► icon next to a trace to expand it and see its children here.</p>
-                </>
-              ) : (
-                <p>Upload a trace file to get started</p>
-              )}
+      {/* Sidebar - fixed position for entire viewport height, one more column per pinned frame */}
+      <div className="bg-gray-800 border-r border-gray-700 overflow-hidden font-mono text-sm fixed top-0 bottom-0 left-0 z-10 flex">
+        <div className="w-64 flex-shrink-0 flex flex-col">
+          {testSuites.length > 0 && (
+            <div className="overflow-y-auto max-h-[45%] border-b border-gray-700">
+              <TestNavigator
+                suites={testSuites}
+                summary={testSummary}
+                selectedTestId={selectedTest?.id ?? null}
+                onSelect={selectTest}
+              />
+            </div>
+          )}
+          {bookmarks.length > 0 && (
+            <div className="overflow-y-auto max-h-[30%] flex-shrink-0 border-b border-gray-700">
+              <BookmarksPanel
+                bookmarks={bookmarks}
+                traceIndex={traceIndex}
+                renderFrame={highlightSyntax}
+                onSelect={selectFrame}
+                onChangeNote={changeBookmarkNote}
+                onRemove={toggleBookmark}
+              />
             </div>
           )}
+          {sidebarFrame && renderSidebarNavigation(sidebarFrame)}
+          <div className="overflow-y-auto flex-1 min-h-0">
+            {sidebarFrame ? renderFrameColumn(sidebarFrame, child => showInSidebar(child)) : (
+              <div className="text-gray-500 text-sm p-4">
+                {traces.length > 0 ? (
+                  <>
+                    <p className="mb-2">No expanded section with children</p>
+                    <p className="text-xs">Click the ► icon next to a trace to expand it and see its children here.</p>
+                  </>
+                ) : (
+                  <p>Upload, paste or drop a trace file to get started</p>
+                )}
+              </div>
+            )}
+          </div>
         </div>
+        {pinnedFrames.map(frame => (
+          <div key={frame.id} className="w-64 flex-shrink-0 flex flex-col border-l border-gray-600">
+            <div className="px-2 pt-2 pb-1 border-b border-gray-700">
+              <div className="flex items-center gap-1 mb-1 text-xs">
+                <span className="text-amber-400 flex-grow">📌 Pinned</span>
+                <button onClick={() => togglePin(frame)} className="text-gray-500 hover:text-white" title="Unpin">✕</button>
+              </div>
+              <FrameBreadcrumb frame={frame} describe={describeFrame} onSelect={trace => replacePin(frame, trace)} />
+            </div>
+            <div className="overflow-y-auto flex-1 min-h-0">
+              {renderFrameColumn(frame, child => replacePin(frame, child))}
+            </div>
+          </div>
+        ))}
       </div>
 
       {/* Main content area with left margin to accommodate sidebar */}
-      <div className="flex-1 ml-64 p-4">
-        <h1 className="text-2xl font-bold mb-4">Foundry Trace Viewer</h1>
+      <div className="flex-1 p-4" style={{ marginLeft: `${16 * (1 + pinnedFrames.length)}rem` }}>
+        <div className="flex items-baseline justify-between mb-4">
+          <h1 className="text-2xl font-bold">Foundry Trace Viewer</h1>
+          <button onClick={() => setHelpOpen(true)} className="text-xs text-gray-500 hover:text-gray-300">
+            Press <kbd className="px-1 border border-gray-600 rounded">?</kbd> for keyboard shortcuts
+          </button>
+        </div>
 
       {loading && (
-        <div className="text-blue-400">Loading traces...</div>
+        <div className="text-blue-400">Loading traces... {Math.round(parseProgress * 100)}%</div>
       )}
 
       {(
@@ -618,7 +1304,7 @@ const DarkEnhancedTraceViewer = () => {
                 id="file-upload"
                 onChange={handleFileChange}
                 className="hidden"
-                accept=".txt,.log,.trace"
+                accept=".txt,.log,.trace,.json"
               />
               <label
                 htmlFor="file-upload"
@@ -627,8 +1313,71 @@ const DarkEnhancedTraceViewer = () => {
                 <span>📄 Upload</span>
               </label>
               <div className="bg-gray-800 text-gray-300 py-0.5 px-3 rounded-r border-l border-blue-800 truncate max-w-[150px] text-sm">
-                {file ? file.name : 'No file selected'}
+                {sourceName ?? 'No file selected'}
               </div>
+              <button
+                onClick={() => setPasteOpen(prev => !prev)}
+                className="ml-2 px-2 py-0.5 bg-gray-700 text-white rounded hover:bg-gray-600 text-sm flex items-center"
+                title="Paste trace output, e.g. from a CI log"
+              >
+                📋 Paste
+              </button>
+              <button
+                onClick={() => setAbiPanelOpen(prev => !prev)}
+                className={`ml-2 px-2 py-0.5 ${abiIndex ? 'bg-green-800 hover:bg-green-700' : 'bg-gray-700 hover:bg-gray-600'} text-white rounded text-sm flex items-center`}
+                title="Decode unknown calls, logs and errors with forge artifacts"
+              >
+                🧩 ABIs
+              </button>
+              <button
+                onClick={() => setStoragePanelOpen(prev => !prev)}
+                className={`ml-2 px-2 py-0.5 ${storagePanelOpen ? 'bg-indigo-800 hover:bg-indigo-700' : 'bg-gray-700 hover:bg-gray-600'} text-white rounded text-sm flex items-center`}
+                title="Storage writes from -vvvvv traces"
+              >
+                💾 Storage
+              </button>
+              <button
+                onClick={() => setStatsPanelOpen(prev => !prev)}
+                className={`ml-2 px-2 py-0.5 ${statsPanelOpen ? 'bg-cyan-800 hover:bg-cyan-700' : 'bg-gray-700 hover:bg-gray-600'} text-white rounded text-sm flex items-center`}
+                title="Call counts, gas and reverts per function, who calls whom and the most emitted events"
+              >
+                📊 Stats
+              </button>
+              <button
+                onClick={() => setLedgerPanelOpen(prev => !prev)}
+                className={`ml-2 px-2 py-0.5 ${ledgerPanelOpen ? 'bg-cyan-800 hover:bg-cyan-700' : 'bg-gray-700 hover:bg-gray-600'} text-white rounded text-sm flex items-center`}
+                title="ETH and token movements from call values and Transfer, Deposit and Withdrawal events"
+              >
+                💸 Value Flow
+              </button>
+              <button
+                onClick={() => setTimelinePanelOpen(prev => !prev)}
+                className={`ml-2 px-2 py-0.5 ${timelinePanelOpen ? 'bg-yellow-800 hover:bg-yellow-700' : 'bg-gray-700 hover:bg-gray-600'} text-white rounded text-sm flex items-center`}
+                title="Every emitted event in execution order, with its parameters"
+              >
+                🕒 Events
+              </button>
+              <button
+                onClick={() => setDeploymentsPanelOpen(prev => !prev)}
+                className={`ml-2 px-2 py-0.5 ${deploymentsPanelOpen ? 'bg-green-800 hover:bg-green-700' : 'bg-gray-700 hover:bg-gray-600'} text-white rounded text-sm flex items-center`}
+                title="Contracts created in the trace, with deployer, code size and gas"
+              >
+                🏗 Deployments
+              </button>
+              <button
+                onClick={() => setAddressBookOpen(prev => !prev)}
+                className={`ml-2 px-2 py-0.5 ${addressBookOpen ? 'bg-cyan-800 hover:bg-cyan-700' : 'bg-gray-700 hover:bg-gray-600'} text-white rounded text-sm flex items-center`}
+                title="Name addresses; double-click any address in the trace to rename it"
+              >
+                📒 Addresses
+              </button>
+              <button
+                onClick={() => setSessionPanelOpen(prev => !prev)}
+                className={`ml-2 px-2 py-0.5 ${sessionPanelOpen ? 'bg-cyan-800 hover:bg-cyan-700' : 'bg-gray-700 hover:bg-gray-600'} text-white rounded text-sm flex items-center`}
+                title="Export or import the trace with its view state, bookmarks and notes"
+              >
+                🗂 Session
+              </button>
             </div>
             <div className="flex space-x-4">
               {!searchMode && (
@@ -645,30 +1394,88 @@ const DarkEnhancedTraceViewer = () => {
                   >
                     🔼 Collapse to Root
                   </button>
+                  <button
+                    onClick={() => setSortChildrenByGas(prev => !prev)}
+                    className={`px-2 py-0.5 ${sortChildrenByGas ? 'bg-orange-700 hover:bg-orange-600' : 'bg-gray-700 hover:bg-gray-600'} text-white rounded text-sm flex items-center`}
+                    title="Order children by inclusive gas"
+                  >
+                    ⛽ Sort by Gas
+                  </button>
+                  <input type="file" id="compare-upload" onChange={handleCompareFile} className="hidden" accept=".txt,.log,.trace,.json" />
+                  {traces.length > 0 && (
+                    <label
+                      htmlFor="compare-upload"
+                      className={`cursor-pointer px-2 py-0.5 ${viewMode === 'diff' ? 'bg-teal-700 hover:bg-teal-600' : 'bg-gray-700 hover:bg-gray-600'} text-white rounded text-sm flex items-center`}
+                      title="Load a second trace (e.g. after a refactor) and compare it with this one"
+                    >
+                      ⇄ Compare
+                    </label>
+                  )}
+                  <div className="flex">
+                    {([
+                      ['tree', '🌳 Tree'],
+                      ['flame', '🔥 Flame'],
+                      ['sequence', '↔ Sequence'],
+                      // Back to the comparison after looking at another view
+                      ...(comparison ? [['diff', '⇄ Diff']] as const : [])
+                    ] as const).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setViewMode(mode)}
+                        className={`px-2 py-0.5 ${viewMode === mode ? 'bg-blue-800' : 'bg-gray-700 hover:bg-gray-600'} text-white text-sm flex items-center first:rounded-l last:rounded-r`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {revertAnalysis.rootCauses.length > 0 && (
+                    <button
+                      onClick={jumpToRootCause}
+                      className="px-2 py-0.5 bg-red-700 text-white rounded hover:bg-red-600 text-sm flex items-center"
+                      title="Scroll to the frame that reverted first"
+                    >
+                      🎯 Jump to Root Cause
+                      {revertAnalysis.rootCauses.length > 1 &&
+                        ` (${(rootCauseIndex % revertAnalysis.rootCauses.length) + 1}/${revertAnalysis.rootCauses.length})`}
+                    </button>
+                  )}
                 </>
               )}
               {searchMode && (
-                <div className="px-2 py-0.5 bg-yellow-800 text-white rounded text-sm flex items-center">
-                  🔎 Search Mode
-                </div>
+                <>
+                  <div className="px-2 py-0.5 bg-yellow-800 text-white rounded text-sm flex items-center">
+                    🔎 Search Mode
+                  </div>
+                  <button
+                    onClick={toggleSearchInContext}
+                    className={`px-2 py-0.5 ${searchInContext ? 'bg-yellow-700 hover:bg-yellow-600' : 'bg-gray-700 hover:bg-gray-600'} text-white rounded text-sm flex items-center`}
+                    title="Show the hits inside the call tree, expanding only the frames that lead to them"
+                  >
+                    {searchInContext ? '📋 Flat List' : '🌳 In Context'}
+                  </button>
+                </>
               )}
             </div>
             <div className="w-1/3 relative">
               <input
+                ref={searchInputRef}
                 type="text"
-                placeholder="Search traces..."
+                placeholder="Search traces, e.g. fn:swap gas>50000 NOT status:revert"
                 value={searchTerm}
                 onChange={handleSearch}
-                className={`w-full px-2 py-1 pl-2 pr-8 border ${searchMode ? 'border-yellow-500' : 'border-gray-700'} bg-gray-800 rounded text-gray-200 text-sm`}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') goToMatch(e.shiftKey ? -1 : 1);
+                }}
+                className={`w-full px-2 py-1 pl-2 pr-8 border ${searchError ? 'border-red-500' : searchMode ? 'border-yellow-500' : 'border-gray-700'} bg-gray-800 rounded text-gray-200 text-sm`}
+                title={
+                  'Words match anywhere; /regex/ is case-insensitive unless flags are given\n' +
+                  'Fields: contract: fn: addr: args: ret: type: status: (= for exact), depth and gas with > >= < <= =\n' +
+                  'Combine with AND (or a space), OR, NOT and parentheses; quote values with spaces'
+                }
               />
               {searchTerm && (
                 <button
-                  onClick={() => {
-                    setSearchTerm('');
-                    setSearchMode(false);
-                    setFilteredTraces([]);
-                    setHighlightedItems(new Set());
-                  }}
+                  onClick={clearSearch}
                   className="absolute right-2 top-1 text-gray-400 hover:text-white"
                   title="Clear search"
                 >
@@ -676,14 +1483,101 @@ const DarkEnhancedTraceViewer = () => {
                 </button>
               )}
               {searchMode && filteredTraces.length > 0 && (
-                <div className="absolute right-8 top-1 text-xs text-yellow-500">
-                  {filteredTraces.length} match{filteredTraces.length !== 1 ? 'es' : ''}
+                <div className="absolute right-8 top-1 text-xs text-yellow-500" title="Enter / Shift+Enter for the next / previous match">
+                  {activeMatch !== null
+                    ? `${activeMatch + 1} of ${filteredTraces.length}`
+                    : `${filteredTraces.length} match${filteredTraces.length !== 1 ? 'es' : ''}`}
+                </div>
+              )}
+              {searchError && (
+                // Point at the part of the query that could not be parsed
+                <div className="absolute left-0 top-full mt-1 px-2 py-1 bg-gray-800 border border-red-500 rounded text-xs text-red-400 whitespace-pre font-mono">
+                  {searchTerm}
+                  {'\n'}
+                  {' '.repeat(searchError.position)}^ {searchError.message}
                 </div>
               )}
             </div>
           </div>
 
-          <div className="trace-container border border-gray-700 rounded-md overflow-auto font-mono text-sm mt-2">
+          {pasteOpen && (
+            <div className="mb-2 p-2 bg-gray-800 border border-gray-700 rounded-md">
+              <textarea
+                value={pasteText}
+                onChange={e => setPasteText(e.target.value)}
+                placeholder="Paste forge test or cast run output, or callTracer JSON (terminal colors and CI timestamps are stripped)"
+                className="w-full h-40 p-2 bg-gray-900 border border-gray-700 rounded font-mono text-xs text-gray-200"
+                autoFocus
+              />
+              <div className="flex justify-end space-x-2 mt-2">
+                <button
+                  onClick={() => setPasteOpen(false)}
+                  className="px-2 py-0.5 bg-gray-700 text-white rounded hover:bg-gray-600 text-sm"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handlePasteSubmit}
+                  disabled={!pasteText.trim()}
+                  className="px-2 py-0.5 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 text-sm"
+                >
+                  Load
+                </button>
+              </div>
+            </div>
+          )}
+
+          {abiPanelOpen && <AbiPanel abiIndex={abiIndex} onLoad={setAbiIndex} />}
+          {addressBookOpen && <AddressBookPanel book={addressBook} />}
+          {sessionPanelOpen && (
+            <SessionPanel
+              getSessionFile={getSessionFile}
+              onImport={file => parseTraceText(file.text, file.name, false, file.session)}
+              onForget={forgetSession}
+            />
+          )}
+          {storagePanelOpen && (
+            <StoragePanel
+              traces={visibleTraces}
+              abiIndex={abiIndex}
+              getLabel={addressBook.getLabel}
+              onSelect={selectFrame}
+            />
+          )}
+
+          {stats && <StatsPanel stats={stats} onSelect={selectFrame} />}
+          {timelineEvents && <EventTimeline events={timelineEvents} renderValue={renderValue} onSelect={selectFrame} />}
+          {deployments && (
+            <DeploymentsPanel
+              deployments={deployments}
+              getLabel={addressBook.getLabel}
+              onRename={addressBook.setLabel}
+              getTargetName={getTargetName}
+              onSelect={selectFrame}
+            />
+          )}
+          {ledger && <LedgerPanel ledger={ledger} getLabel={addressBook.getLabel} onSelect={selectFrame} />}
+
+          <NoiseFilters hidden={hiddenCategories} onChange={changeHiddenCategories} />
+          <NumberFormatBar
+            format={numberFormat}
+            decimals={defaultDecimals}
+            detectedTokens={tokenDecimals.size}
+            overrides={valueFormats.size}
+            onFormatChange={setNumberFormat}
+            onDecimalsChange={setDefaultDecimals}
+            onResetOverrides={() => setValueFormats(new Map())}
+          />
+
+          <div
+            className={`trace-container border ${dragActive ? 'border-blue-400 border-dashed bg-gray-800' : 'border-gray-700'} rounded-md overflow-auto font-mono text-sm mt-2`}
+            onDragOver={e => {
+              e.preventDefault();
+              setDragActive(true);
+            }}
+            onDragLeave={() => setDragActive(false)}
+            onDrop={handleDrop}
+          >
             <div className="legend p-2 bg-gray-800 border-b border-gray-700 flex flex-wrap gap-2">
               <div className="flex flex-col w-full mb-2">
                 <span className="text-sm font-bold">Call Depth Colors:</span>
@@ -697,12 +1591,29 @@ const DarkEnhancedTraceViewer = () => {
               </div>
             </div>
             <div className="p-4">
-              {searchMode ? (
+              {viewMode === 'flame' && !searchMode ? (
+                <FlameGraph traces={visibleTraces} onSelect={selectFrame} />
+              ) : viewMode === 'sequence' && !searchMode ? (
+                <SequenceDiagram
+                  traces={filteredRoots}
+                  expandedItems={expandedItems}
+                  getChildren={getFilteredChildren}
+                  getTargetName={getTargetName}
+                  onToggle={trace => toggleExpand(trace.id, trace)}
+                  onSelect={selectFrame}
+                />
+              ) : viewMode === 'diff' && comparison && !searchMode ? (
+                <TraceDiffView
+                  diffs={traceDiff}
+                  beforeName={sourceName ?? 'current'}
+                  afterName={comparison.name}
+                  renderFrame={highlightSyntax}
+                  onClose={closeComparison}
+                />
+              ) : searchMode ? (
                 filteredTraces.length > 0 ? (
                   // When in search mode with results, render only the filtered traces
-                  filteredTraces.map((trace, index) => {
-                    return renderTrace(trace, index);
-                  })
+                  <VirtualTraceList rows={rows} renderRow={renderRow} scrollRequest={scrollRequest} onScrolledTo={request => !request.quiet && highlightRow(request.key)} />
                 ) : (
                   // When in search mode with no results
                   <div className="text-gray-400 text-center py-4">
@@ -710,17 +1621,27 @@ const DarkEnhancedTraceViewer = () => {
                   </div>
                 )
               ) : (
-                // Normal mode - render all traces
-                traces.map((trace, index) => {
-                  return renderTrace(trace, index);
-                })
+                // Normal mode - render all traces (of the selected test)
+                <VirtualTraceList rows={rows} renderRow={renderRow} scrollRequest={scrollRequest} onScrolledTo={request => !request.quiet && highlightRow(request.key)} />
               )}
             </div>
           </div>
         </>
       )}
 
-      {!loading && file && traces.length === 0 && (
+      {helpOpen && <KeyboardHelp onClose={() => setHelpOpen(false)} />}
+
+      {contextMenu && (
+        <TraceContextMenu
+          trace={contextMenu.trace}
+          x={contextMenu.x}
+          y={contextMenu.y}
+          exportAs={exportSubtree}
+          onClose={closeContextMenu}
+        />
+      )}
+
+      {!loading && sourceName && traces.length === 0 && (
         <div className="text-red-400">No valid traces found in the file.</div>
       )}
       </div>
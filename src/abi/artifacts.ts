@@ -0,0 +1,130 @@
+import { unzipSync } from 'fflate';
+import { Abi, AbiEvent, AbiFunction, AbiParameter, keccak256, toHex } from 'viem';
+import { normalizeSlot } from '../parser';
+
+export type AbiError = Extract<Abi[number], { type: 'error' }>;
+
+// An ABI item together with the contract whose artifact declared it
+export interface IndexedAbiItem<T> {
+  contractName: string;
+  item: T;
+}
+
+// Lookup tables built from a project's compiled artifacts
+export interface AbiIndex {
+  // By 4-byte selector (`0xa9059cbb`)
+  functions: Map<string, IndexedAbiItem<AbiFunction>>;
+  // By `Contract::name`, for return data of calls forge already named
+  functionsByName: Map<string, IndexedAbiItem<AbiFunction>>;
+  // By topic 0
+  events: Map<string, IndexedAbiItem<AbiEvent>>;
+  // By 4-byte selector
+  errors: Map<string, IndexedAbiItem<AbiError>>;
+  // Contract name -> decimal slot -> variable name(s) stored there
+  storageLabels: Map<string, Map<string, string>>;
+  contractNames: string[];
+}
+
+// A compiled artifact: `out/Counter.sol/Counter.json`
+export interface Artifact {
+  contractName: string;
+  abi: (AbiFunction | AbiEvent | AbiError | { type: string })[];
+  // Present when built with `--extra-output storageLayout`
+  storageLayout?: { storage: { label: string; slot: string }[] };
+}
+
+// Canonical type as used in signatures, expanding tuples to `(t1,t2)`
+const canonicalType = (param: AbiParameter): string => {
+  if (param.type.startsWith('tuple') && 'components' in param) {
+    return `(${param.components.map(canonicalType).join(',')})${param.type.slice('tuple'.length)}`;
+  }
+  return param.type;
+};
+
+export const getSignature = (item: AbiFunction | AbiEvent | AbiError) =>
+  `${item.name}(${item.inputs.map(canonicalType).join(',')})`;
+
+const signatureHash = (item: AbiFunction | AbiEvent | AbiError) => keccak256(toHex(getSignature(item)));
+
+export const createAbiIndex = (artifacts: Artifact[]): AbiIndex => {
+  const index: AbiIndex = {
+    functions: new Map(),
+    functionsByName: new Map(),
+    events: new Map(),
+    errors: new Map(),
+    storageLabels: new Map(),
+    contractNames: [],
+  };
+
+  artifacts.forEach(({ contractName, abi, storageLayout }) => {
+    index.contractNames.push(contractName);
+
+    if (storageLayout?.storage?.length) {
+      // Variables packed into one slot share it, so list them all
+      const slots = new Map<string, string>();
+      storageLayout.storage.forEach(({ label, slot }) => {
+        const key = normalizeSlot(slot);
+        slots.set(key, slots.has(key) ? `${slots.get(key)}, ${label}` : label);
+      });
+      index.storageLabels.set(contractName, slots);
+    }
+
+    abi.forEach(entry => {
+      if (entry.type === 'function') {
+        const item = entry as AbiFunction;
+        const indexed = { contractName, item };
+        index.functions.set(signatureHash(item).slice(0, 10), indexed);
+        index.functionsByName.set(`${contractName}::${item.name}`, indexed);
+      } else if (entry.type === 'event') {
+        const item = entry as AbiEvent;
+        index.events.set(signatureHash(item), { contractName, item });
+      } else if (entry.type === 'error') {
+        const item = entry as AbiError;
+        index.errors.set(signatureHash(item).slice(0, 10), { contractName, item });
+      }
+    });
+  });
+
+  return index;
+};
+
+// Forge writes build metadata next to the artifacts; it has no ABIs and can be huge
+const isArtifactPath = (path: string) => path.endsWith('.json') && !path.includes('build-info/');
+
+const parseArtifact = (path: string, text: string): Artifact | null => {
+  try {
+    const json = JSON.parse(text);
+    const hasAbi = Array.isArray(json?.abi) && json.abi.length > 0;
+    if (!hasAbi && !json?.storageLayout) return null;
+    const contractName = path.split('/').pop()!.replace(/\.json$/, '');
+    return { contractName, abi: json.abi ?? [], storageLayout: json.storageLayout };
+  } catch {
+    return null;
+  }
+};
+
+// Read artifacts from files picked with a directory input (`out/`) or from
+// a zip of that directory
+export const loadArtifacts = async (files: File[]): Promise<Artifact[]> => {
+  const artifacts: Artifact[] = [];
+
+  for (const file of files) {
+    if (file.name.endsWith('.zip')) {
+      const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+        filter: entry => isArtifactPath(entry.name),
+      });
+      const decoder = new TextDecoder();
+      Object.entries(entries).forEach(([path, data]) => {
+        const artifact = parseArtifact(path, decoder.decode(data));
+        if (artifact) artifacts.push(artifact);
+      });
+    } else {
+      const path = file.webkitRelativePath || file.name;
+      if (!isArtifactPath(path)) continue;
+      const artifact = parseArtifact(path, await file.text());
+      if (artifact) artifacts.push(artifact);
+    }
+  }
+
+  return artifacts;
+};
@@ -0,0 +1,140 @@
+import { AbiParameter, Hex, decodeAbiParameters } from 'viem';
+import { Trace, TraceArg, walkTraces } from '../parser';
+import { AbiIndex } from './artifacts';
+
+// What the artifacts told us about a trace node that forge left undecoded
+export interface DecodedTrace {
+  // Contract whose artifact the selector or topic came from
+  contractName: string | null;
+  // Function or event name
+  name: string | null;
+  args: TraceArg[] | null;
+  returnArgs: TraceArg[] | null;
+  error: { name: string; args: TraceArg[] } | null;
+}
+
+const HEX_PATTERN = /^0x[0-9a-fA-F]*$/;
+
+// Render a decoded value the way forge prints arguments
+const formatValue = (param: AbiParameter, value: unknown): string => {
+  const arrayMatch = param.type.match(/^(.*)\[\d*\]$/);
+  if (arrayMatch && Array.isArray(value)) {
+    const inner = { ...param, type: arrayMatch[1] } as AbiParameter;
+    return `[${value.map(item => formatValue(inner, item)).join(', ')}]`;
+  }
+
+  if (param.type === 'tuple' && 'components' in param) {
+    const items = param.components.map((component, i) => {
+      const item = Array.isArray(value) ? value[i] : (value as Record<string, unknown>)[component.name ?? i];
+      const formatted = formatValue(component, item);
+      return component.name ? `${component.name}: ${formatted}` : formatted;
+    });
+    return `(${items.join(', ')})`;
+  }
+
+  if (typeof value === 'string' && param.type === 'string') return JSON.stringify(value);
+  return String(value);
+};
+
+// Decode ABI-encoded data into named, typed arguments
+const decodeArgs = (params: readonly AbiParameter[], data: Hex): TraceArg[] => {
+  const values = decodeAbiParameters(params, data);
+  return params.map((param, i) => ({
+    name: param.name ? `${param.type} ${param.name}` : param.type,
+    value: formatValue(param, values[i]),
+  }));
+};
+
+// Calldata of a call forge printed as `0x..::fallback(0xa9059cbb..)` or `0x..::a9059cbb(00..)`
+const getCalldata = (trace: Trace): Hex | null => {
+  if (trace.functionName && /^[0-9a-fA-F]{8}$/.test(trace.functionName)) {
+    const data = trace.args.map(arg => arg.value.replace(/^0x/, '')).join('');
+    return `0x${trace.functionName}${data}` as Hex;
+  }
+  if (trace.functionName === 'fallback' && trace.args.length === 1) {
+    const data = trace.args[0].value;
+    if (HEX_PATTERN.test(data) && data.length >= 10) return data as Hex;
+  }
+  return null;
+};
+
+const decodeCall = (trace: Trace, index: AbiIndex, decoded: DecodedTrace) => {
+  const calldata = getCalldata(trace);
+  let fn = calldata ? index.functions.get(calldata.slice(0, 10).toLowerCase()) : undefined;
+
+  if (fn && calldata) {
+    const args = decodeArgs(fn.item.inputs, `0x${calldata.slice(10)}`);
+    decoded.contractName = fn.contractName;
+    decoded.name = fn.item.name;
+    decoded.args = args;
+  } else if (trace.contractName && trace.functionName) {
+    // Forge named the call but may not have decoded its return value
+    fn = index.functionsByName.get(`${trace.contractName}::${trace.functionName}`);
+  }
+
+  const returnData = trace.returnData;
+  if (fn && returnData && HEX_PATTERN.test(returnData) && returnData.length > 2) {
+    decoded.returnArgs = decodeArgs(fn.item.outputs, returnData as Hex);
+  }
+};
+
+// Custom errors show up as `custom error 0x12345678: 0000..` or plain `0x12345678..`
+const decodeRevert = (trace: Trace, index: AbiIndex, decoded: DecodedTrace) => {
+  const errorMatch = trace.revertReason?.match(/0x([0-9a-fA-F]{8})[:\s(]*([0-9a-fA-F]*)/);
+  if (!errorMatch) return;
+
+  const error = index.errors.get(`0x${errorMatch[1].toLowerCase()}`);
+  if (error) {
+    decoded.error = { name: error.item.name, args: decodeArgs(error.item.inputs, `0x${errorMatch[2]}`) };
+  }
+};
+
+// Raw logs are printed as `emit topic 0: 0x..`, `topic 1: 0x..`, `data: 0x..` lines
+const decodeLog = (trace: Trace, index: AbiIndex, decoded: DecodedTrace) => {
+  const topics = [...trace.content.matchAll(/topic \d+: (0x[0-9a-fA-F]+)/g)].map(match => match[1] as Hex);
+  const data = (trace.content.match(/data: (0x[0-9a-fA-F]*)/)?.[1] ?? '0x') as Hex;
+  const event = topics.length > 0 ? index.events.get(topics[0].toLowerCase()) : undefined;
+  if (!event) return;
+
+  const dataArgs = decodeArgs(event.item.inputs.filter(input => !input.indexed), data);
+
+  // Put the arguments back in declaration order
+  let topicIndex = 1;
+  let dataIndex = 0;
+  const args = event.item.inputs.map(input => {
+    if (!input.indexed) return dataArgs[dataIndex++];
+    const topic = topics[topicIndex++];
+    // Dynamic indexed values are stored as their hash and can't be recovered
+    const isDynamic = /^(string|bytes|tuple)$|\[/.test(input.type);
+    if (isDynamic || !topic) return { name: `${input.type} ${input.name}`, value: topic ?? '' };
+    return decodeArgs([input], topic)[0];
+  });
+
+  decoded.contractName = event.contractName;
+  decoded.name = event.item.name;
+  decoded.args = args;
+};
+
+// Decode everything in the tree the artifacts can explain. Nodes forge
+// already decoded, or that no artifact matches, are left out of the map.
+export const decodeTraces = (traces: Trace[], index: AbiIndex): Map<string, DecodedTrace> => {
+  const results = new Map<string, DecodedTrace>();
+
+  walkTraces(traces, trace => {
+    const decoded: DecodedTrace = { contractName: null, name: null, args: null, returnArgs: null, error: null };
+
+    try {
+      if (trace.kind === 'call') decodeCall(trace, index, decoded);
+      if (trace.kind === 'event' && !trace.functionName) decodeLog(trace, index, decoded);
+      if (trace.revertReason) decodeRevert(trace, index, decoded);
+    } catch {
+      // Data that doesn't match the ABI (e.g. a selector collision); leave it raw
+    }
+
+    if (decoded.name || decoded.returnArgs || decoded.error) {
+      results.set(trace.id, decoded);
+    }
+  });
+
+  return results;
+};
@@ -0,0 +1,4 @@
+export { createAbiIndex, getSignature, loadArtifacts } from './artifacts';
+export type { AbiIndex, Artifact, IndexedAbiItem } from './artifacts';
+export { decodeTraces } from './decode';
+export type { DecodedTrace } from './decode';
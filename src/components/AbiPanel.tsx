@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { AbiIndex, createAbiIndex, loadArtifacts } from '../abi';
+
+interface AbiPanelProps {
+  abiIndex: AbiIndex | null;
+  onLoad: (index: AbiIndex | null) => void;
+}
+
+// Load a Foundry project's `out/` artifacts to decode what forge couldn't
+const AbiPanel = ({ abiIndex, onLoad }: AbiPanelProps) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const artifacts = await loadArtifacts(files);
+      if (artifacts.length === 0) {
+        setError('No artifacts with an ABI found. Pick the out/ directory of a forge project.');
+      } else {
+        onLoad(createAbiIndex(artifacts));
+      }
+    } catch (loadError) {
+      setError(`Could not load artifacts: ${loadError instanceof Error ? loadError.message : loadError}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mb-2 p-2 bg-gray-800 border border-gray-700 rounded-md text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-bold">ABI Decoding</span>
+        <input
+          type="file"
+          id="artifact-dir"
+          onChange={handleFiles}
+          className="hidden"
+          multiple
+          // Not in React's types, but supported by every major browser
+          ref={el => el?.setAttribute('webkitdirectory', '')}
+        />
+        <label
+          htmlFor="artifact-dir"
+          className="cursor-pointer px-2 py-0.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs"
+        >
+          Choose out/ directory
+        </label>
+        <input type="file" id="artifact-zip" onChange={handleFiles} className="hidden" accept=".zip" />
+        <label
+          htmlFor="artifact-zip"
+          className="cursor-pointer px-2 py-0.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs"
+        >
+          Upload .zip
+        </label>
+        {abiIndex && (
+          <button
+            onClick={() => onLoad(null)}
+            className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs"
+          >
+            Unload
+          </button>
+        )}
+      </div>
+      <div className="text-xs text-gray-400 mt-2">
+        {loading && 'Reading artifacts...'}
+        {!loading && abiIndex && (
+          `${abiIndex.contractNames.length} contracts: ${abiIndex.functions.size} functions, ` +
+          `${abiIndex.events.size} events, ${abiIndex.errors.size} errors, ${abiIndex.storageLabels.size} storage layouts`
+        )}
+        {!loading && !abiIndex && 'Unknown selectors, raw logs, return data and custom errors are decoded once artifacts are loaded.'}
+      </div>
+      {error && <div className="text-xs text-red-400 mt-1">{error}</div>}
+    </div>
+  );
+};
+
+export default AbiPanel;
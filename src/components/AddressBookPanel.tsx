@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { parseLabelFile } from '../parser';
+import { AddressBook } from '../hooks/useAddressBook';
+import AddressLabel from './AddressLabel';
+
+interface AddressBookPanelProps {
+  book: AddressBook;
+}
+
+const AddressBookPanel = ({ book }: AddressBookPanelProps) => {
+  const [filter, setFilter] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  // Import a JSON label map or deployment file
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseLabelFile(JSON.parse(await file.text()));
+      const count = Object.keys(imported).length;
+      book.importLabels(imported);
+      setImportMessage(`Imported ${count} label${count !== 1 ? 's' : ''} from ${file.name}`);
+    } catch (error) {
+      setImportMessage(`Could not read ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const lowerFilter = filter.toLowerCase();
+  const entries = Object.entries(book.labels)
+    .filter(([address, label]) => address.includes(lowerFilter) || label.toLowerCase().includes(lowerFilter))
+    .sort(([, a], [, b]) => a.localeCompare(b));
+
+  return (
+    <div className="mb-2 p-2 bg-gray-800 border border-gray-700 rounded-md text-sm">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="font-bold">Address Book</span>
+        <input
+          type="text"
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="Filter..."
+          className="flex-grow px-2 py-0.5 bg-gray-900 border border-gray-700 rounded text-xs"
+        />
+        <input type="file" id="label-import" onChange={handleImport} className="hidden" accept=".json" />
+        <label
+          htmlFor="label-import"
+          className="cursor-pointer px-2 py-0.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs"
+          title="JSON map of address to name, or a forge broadcast / deployment file"
+        >
+          Import JSON
+        </label>
+        <button
+          onClick={book.clearLabels}
+          className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs"
+          title="Forget imported and renamed labels"
+        >
+          Clear saved
+        </button>
+      </div>
+      {importMessage && <div className="text-xs text-gray-400 mb-2">{importMessage}</div>}
+      <div className="max-h-48 overflow-y-auto font-mono text-xs">
+        {entries.length === 0 && <div className="text-gray-500">No labels yet</div>}
+        {entries.map(([address, label]) => (
+          <div key={address} className="flex justify-between gap-2 py-0.5 border-b border-gray-700">
+            <AddressLabel address={address} label={label} onRename={book.setLabel} />
+            <span className="text-gray-500 truncate">
+              {address}
+              {address in book.userLabels ? ' (saved)' : ' (from trace)'}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AddressBookPanel;
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+
+interface AddressLabelProps {
+  address: string;
+  label: string | null;
+  onRename: (address: string, label: string) => void;
+}
+
+// An address shown by its label (raw address on hover). Double-click to
+// rename it inline; an empty name removes the label, including one taken
+// from the trace.
+const AddressLabel = ({ address, label, onRename }: AddressLabelProps) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  if (editing) {
+    const commit = () => {
+      onRename(address, draft);
+      setEditing(false);
+    };
+
+    return (
+      <input
+        autoFocus
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onClick={e => e.stopPropagation()}
+        onBlur={commit}
+        onKeyDown={e => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setEditing(false);
+        }}
+        className="bg-gray-900 border border-cyan-600 rounded px-1 text-cyan-300 text-xs w-40 not-italic"
+        placeholder={address}
+      />
+    );
+  }
+
+  return (
+    <span
+      className={label ? 'text-cyan-300 underline decoration-dotted' : 'text-cyan-400'}
+      title={label ? `${address}\nDouble-click to rename` : 'Double-click to label'}
+      onClick={e => e.stopPropagation()}
+      onDoubleClick={e => {
+        e.stopPropagation();
+        setDraft(label ?? '');
+        setEditing(true);
+      }}
+    >
+      {label ?? address}
+    </span>
+  );
+};
+
+export default AddressLabel;
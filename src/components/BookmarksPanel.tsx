@@ -0,0 +1,50 @@
+import React from 'react';
+import { Trace } from '../parser';
+import { Bookmark } from '../session';
+
+interface BookmarksPanelProps {
+  bookmarks: Bookmark[];
+  traceIndex: Map<string, Trace>;
+  renderFrame: (trace: Trace) => React.ReactNode;
+  onSelect: (trace: Trace) => void;
+  onChangeNote: (traceId: string, note: string) => void;
+  onRemove: (traceId: string) => void;
+}
+
+// Bookmarked frames with their notes, in the order they were added
+const BookmarksPanel = ({ bookmarks, traceIndex, renderFrame, onSelect, onChangeNote, onRemove }: BookmarksPanelProps) => {
+  return (
+    <div className="p-2 text-xs">
+      <div className="font-bold text-gray-300 px-1 pb-1 mb-1 border-b border-gray-700">★ Bookmarks</div>
+      {bookmarks.map(bookmark => {
+        const trace = traceIndex.get(bookmark.traceId);
+        if (!trace) return null;
+        return (
+          <div key={bookmark.traceId} className="mb-2 p-1 rounded bg-gray-900">
+            <div className="flex gap-1">
+              <div
+                onClick={() => onSelect(trace)}
+                className="flex-grow truncate cursor-pointer hover:underline"
+                title={trace.content}
+              >
+                {renderFrame(trace)}
+              </div>
+              <button onClick={() => onRemove(bookmark.traceId)} className="text-gray-500 hover:text-white" title="Remove bookmark">
+                ✕
+              </button>
+            </div>
+            <textarea
+              value={bookmark.note}
+              onChange={e => onChangeNote(bookmark.traceId, e.target.value)}
+              placeholder="Add a note..."
+              rows={bookmark.note ? 2 : 1}
+              className="w-full mt-1 px-1 bg-gray-800 border border-gray-700 rounded text-gray-200 resize-y"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BookmarksPanel;
@@ -0,0 +1,55 @@
+import { Deployment, Trace, formatGas } from '../parser';
+import AddressLabel from './AddressLabel';
+
+interface DeploymentsPanelProps {
+  deployments: Deployment[];
+  getLabel: (address: string) => string | null;
+  onRename: (address: string, label: string) => void;
+  getTargetName: (trace: Trace) => string;
+  onSelect: (trace: Trace) => void;
+}
+
+// Contracts created in the trace. Their names label the addresses everywhere;
+// double-click an address to name an `<unknown>` one.
+const DeploymentsPanel = ({ deployments, getLabel, onRename, getTargetName, onSelect }: DeploymentsPanelProps) => (
+  <div className="mb-2 p-2 bg-gray-800 border border-gray-700 rounded-md text-sm">
+    <div className="font-bold mb-2">Deployments</div>
+    <div className="max-h-80 overflow-y-auto font-mono text-xs">
+      <table className="w-full">
+        <thead className="sticky top-0 bg-gray-800 text-gray-400">
+          <tr>
+            <th className="text-left">Contract</th>
+            <th className="text-left">Address</th>
+            <th className="text-left">Deployer</th>
+            <th className="text-right">Code size</th>
+            <th className="text-right">Gas</th>
+          </tr>
+        </thead>
+        <tbody>
+          {deployments.map(deployment => (
+            <tr
+              key={deployment.trace.id}
+              onClick={() => onSelect(deployment.trace)}
+              className={`border-t border-gray-700 cursor-pointer hover:bg-gray-700 ${deployment.failed ? 'text-red-400' : ''}`}
+              title={deployment.failed ? 'Creation reverted' : deployment.trace.content}
+            >
+              <td className="text-green-300 pr-2">
+                {deployment.name ?? <span className="text-gray-500">{'<unknown>'}</span>}
+                {deployment.trace.callType === 'create2' && <span className="text-gray-500"> (create2)</span>}
+              </td>
+              <td className="pr-2">
+                <AddressLabel address={deployment.address} label={getLabel(deployment.address)} onRename={onRename} />
+              </td>
+              <td className="text-blue-300 break-all pr-2">{deployment.deployer ? getTargetName(deployment.deployer) : '—'}</td>
+              <td className="text-right">{deployment.codeSize !== null ? `${deployment.codeSize.toLocaleString('en-US')} B` : '—'}</td>
+              <td className="text-right">{formatGas(deployment.gas)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {deployments.length === 0 && <div className="text-gray-500">No contracts created</div>}
+    </div>
+  </div>
+);
+
+export default DeploymentsPanel;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { TimelineEvent, Trace } from '../parser';
+
+interface EventTimelineProps {
+  events: TimelineEvent[];
+  // Render a parameter value like the tree does (labels, number formats)
+  renderValue: (value: string, trace: Trace, key: string) => React.ReactNode;
+  onSelect: (trace: Trace) => void;
+}
+
+const matches = (text: string, filter: string) => text.toLowerCase().includes(filter.toLowerCase());
+
+// Every emitted event in execution order with its decoded parameters
+const EventTimeline = ({ events, renderValue, onSelect }: EventTimelineProps) => {
+  const [nameFilter, setNameFilter] = useState('');
+  const [valueFilter, setValueFilter] = useState('');
+
+  const shown = events.filter(event =>
+    (!nameFilter || matches(event.name ?? 'raw log', nameFilter) || matches(event.contract, nameFilter))
+    && (!valueFilter || event.args.some(arg => matches(arg.value, valueFilter))));
+
+  return (
+    <div className="mb-2 p-2 bg-gray-800 border border-gray-700 rounded-md text-sm">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="font-bold">Event Timeline</span>
+        <input
+          value={nameFilter}
+          onChange={e => setNameFilter(e.target.value)}
+          placeholder="Event or contract"
+          className="px-2 py-0.5 bg-gray-900 border border-gray-700 rounded text-xs text-gray-200"
+        />
+        <input
+          value={valueFilter}
+          onChange={e => setValueFilter(e.target.value)}
+          placeholder="Parameter value"
+          className="px-2 py-0.5 bg-gray-900 border border-gray-700 rounded text-xs text-gray-200"
+        />
+        <span className="text-xs text-gray-400">
+          {shown.length === events.length ? `${events.length} events` : `${shown.length} of ${events.length} events`}
+        </span>
+      </div>
+      <div className="max-h-80 overflow-y-auto font-mono text-xs">
+        <table className="w-full">
+          <thead className="sticky top-0 bg-gray-800 text-gray-400">
+            <tr>
+              <th className="text-right pr-2">#</th>
+              <th className="text-left">Contract</th>
+              <th className="text-left">Event</th>
+              <th className="text-left">Parameters</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map(event => (
+              <tr
+                key={event.trace.id}
+                onClick={() => onSelect(event.trace)}
+                className={`border-t border-gray-700 align-top cursor-pointer hover:bg-gray-700 ${event.reverted ? 'opacity-50' : ''}`}
+                title={event.reverted ? 'Rolled back: emitted in a frame that reverted' : event.trace.content}
+              >
+                <td className="text-right pr-2 text-gray-500">{event.index}</td>
+                <td className="text-blue-300 break-all pr-2">{event.contract}</td>
+                <td className={`pr-2 ${event.reverted ? 'line-through' : ''}`}>
+                  {event.name ? <span className="text-yellow-300">{event.name}</span> : <span className="text-gray-500">raw log</span>}
+                </td>
+                <td className="break-all">
+                  {event.args.map((arg, index) => (
+                    <div key={index}>
+                      <span className="text-gray-400">{arg.name ?? index}: </span>
+                      {renderValue(arg.value, event.trace, `${event.trace.id}:arg-${index}`)}
+                    </div>
+                  ))}
+                  {!event.name && event.args.length === 0 && (
+                    <span className="text-gray-500 whitespace-pre-wrap">{event.trace.content.replace(/^emit /, '')}</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {events.length === 0 && <div className="text-gray-500">No events</div>}
+      </div>
+    </div>
+  );
+};
+
+export default EventTimeline;
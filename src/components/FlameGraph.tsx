@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import { Trace, formatGas, getSelfGas } from '../parser';
+
+interface FlameGraphProps {
+  traces: Trace[];
+  onSelect: (trace: Trace) => void;
+}
+
+// A positioned block in the icicle layout; x and width are fractions of the total gas
+interface FlameBlock {
+  trace: Trace;
+  x: number;
+  width: number;
+  level: number;
+}
+
+const ROW_HEIGHT = 20;
+
+// Blocks narrower than this fraction of the whole graph are not drawn
+const MIN_WIDTH = 0.001;
+
+const blockColors = [
+  'bg-orange-700',
+  'bg-red-700',
+  'bg-amber-700',
+  'bg-yellow-700',
+  'bg-rose-700',
+  'bg-orange-800',
+  'bg-red-800',
+  'bg-amber-800'
+];
+
+// Pick a stable color per contract so repeated calls are easy to spot
+const colorFor = (trace: Trace) => {
+  const name = trace.contractName ?? trace.address ?? trace.content;
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return blockColors[Math.abs(hash) % blockColors.length];
+};
+
+const labelFor = (trace: Trace) => {
+  if (trace.kind === 'call') {
+    return `${trace.contractName ?? trace.address}::${trace.functionName}`;
+  }
+  return trace.content.replace(/^\[\d+\]\s*/, '');
+};
+
+// Lay out the call tree as an icicle graph: roots on top, children below
+// their parent, each frame as wide as its share of the inclusive gas
+const layoutBlocks = (traces: Trace[]): { blocks: FlameBlock[]; levels: number } => {
+  const blocks: FlameBlock[] = [];
+  let levels = 0;
+
+  const layout = (nodes: Trace[], x: number, width: number, total: number, level: number) => {
+    let offset = x;
+    nodes.forEach(node => {
+      if (!node.gas || total <= 0) return;
+      const nodeWidth = width * (node.gas / total);
+      if (nodeWidth >= MIN_WIDTH) {
+        blocks.push({ trace: node, x: offset, width: nodeWidth, level });
+        levels = Math.max(levels, level + 1);
+        layout(node.children, offset, nodeWidth, node.gas, level + 1);
+      }
+      offset += nodeWidth;
+    });
+  };
+
+  const rootTotal = traces.reduce((sum, trace) => sum + (trace.gas ?? 0), 0);
+  layout(traces, 0, 1, rootTotal, 0);
+
+  return { blocks, levels };
+};
+
+const FlameGraph = ({ traces, onSelect }: FlameGraphProps) => {
+  const { blocks, levels } = useMemo(() => layoutBlocks(traces), [traces]);
+
+  if (blocks.length === 0) {
+    return (
+      <div className="text-gray-400 text-center py-4">
+        No gas information found in the trace
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative w-full" style={{ height: `${levels * ROW_HEIGHT}px` }}>
+      {blocks.map(block => (
+        <div
+          key={block.trace.id}
+          onClick={() => onSelect(block.trace)}
+          className={`${colorFor(block.trace)} absolute overflow-hidden whitespace-nowrap text-xs text-white px-1 border border-gray-900 cursor-pointer hover:brightness-125`}
+          style={{
+            left: `${block.x * 100}%`,
+            width: `${block.width * 100}%`,
+            top: `${block.level * ROW_HEIGHT}px`,
+            height: `${ROW_HEIGHT}px`,
+          }}
+          title={`${labelFor(block.trace)}\ngas: ${formatGas(block.trace.gas)}\nself: ${formatGas(getSelfGas(block.trace))}`}
+        >
+          {labelFor(block.trace)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FlameGraph;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Trace, getAncestors } from '../parser';
+
+interface FrameBreadcrumbProps {
+  frame: Trace;
+  describe: (trace: Trace) => string;
+  onSelect: (trace: Trace) => void;
+}
+
+// The path from the root down to a frame; every step is clickable
+const FrameBreadcrumb = ({ frame, describe, onSelect }: FrameBreadcrumbProps) => (
+  <div className="flex flex-wrap items-baseline gap-x-1 text-xs text-gray-400 break-all">
+    {[...getAncestors(frame), frame].map((trace, index) => (
+      <React.Fragment key={trace.id}>
+        {index > 0 && <span className="text-gray-600">›</span>}
+        {trace === frame ? (
+          <span className="text-gray-200">{describe(trace)}</span>
+        ) : (
+          <button onClick={() => onSelect(trace)} className="hover:text-white hover:underline text-left" title={trace.content}>
+            {describe(trace)}
+          </button>
+        )}
+      </React.Fragment>
+    ))}
+  </div>
+);
+
+export default FrameBreadcrumb;
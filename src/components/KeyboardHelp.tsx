@@ -0,0 +1,44 @@
+interface KeyboardHelpProps {
+  onClose: () => void;
+}
+
+const bindings: [string, string][] = [
+  ['j / ↓', 'Next row'],
+  ['k / ↑', 'Previous row'],
+  ['l / →', 'Expand, or go to the first child'],
+  ['h / ←', 'Collapse, or go to the parent'],
+  ['Enter', 'Toggle the focused frame'],
+  ['p', 'Parent frame'],
+  ['] / [', 'Next / previous sibling'],
+  ['*', 'Expand the whole subtree'],
+  ['r', 'Next reverting frame'],
+  ['b / f', 'Sidebar back / forward'],
+  ['/', 'Focus search (Enter / Shift+Enter step through matches)'],
+  ['?', 'Show or hide this help'],
+  ['Esc', 'Close this help'],
+];
+
+const KeyboardHelp = ({ onClose }: KeyboardHelpProps) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60" onClick={onClose}>
+      <div className="p-4 bg-gray-800 border border-gray-600 rounded-md shadow-lg text-sm" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-3">
+          <span className="font-bold">Keyboard shortcuts</span>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">✕</button>
+        </div>
+        <table>
+          <tbody>
+            {bindings.map(([keys, description]) => (
+              <tr key={keys}>
+                <td className="pr-4 py-0.5 font-mono text-yellow-300 whitespace-nowrap">{keys}</td>
+                <td className="py-0.5 text-gray-300">{description}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardHelp;
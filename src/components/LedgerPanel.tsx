@@ -0,0 +1,87 @@
+import { useMemo } from 'react';
+import { BalanceChange, ETH, Ledger, Trace, isAddress } from '../parser';
+
+interface LedgerPanelProps {
+  ledger: Ledger;
+  getLabel: (address: string) => string | null;
+  onSelect: (trace: Trace) => void;
+}
+
+const kindLabels = {
+  eth: 'value',
+  transfer: 'Transfer',
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+};
+
+const formatAmount = (amount: bigint) => amount.toLocaleString('en-US');
+
+// Net balance changes per party and token, plus every movement in execution order
+const LedgerPanel = ({ ledger, getLabel, onSelect }: LedgerPanelProps) => {
+  // Parties (addresses or names) shown by their labels, raw value on hover
+  const renderParty = (party: string) => {
+    const label = isAddress(party) ? getLabel(party) : null;
+    return (
+      <span className="text-blue-300" title={party}>
+        {label ?? (isAddress(party) ? `${party.slice(0, 6)}…${party.slice(-4)}` : party)}
+      </span>
+    );
+  };
+
+  const renderToken = (token: string) => (token === ETH ? <span className="text-purple-300">ETH</span> : renderParty(token));
+
+  // Group balance changes by party
+  const byParty = useMemo(() => {
+    const groups = new Map<string, BalanceChange[]>();
+    ledger.balances.forEach(balance => groups.set(balance.party, [...(groups.get(balance.party) ?? []), balance]));
+    return [...groups];
+  }, [ledger]);
+
+  return (
+    <div className="mb-2 p-2 bg-gray-800 border border-gray-700 rounded-md text-sm">
+      <div className="font-bold mb-2">Value Flow</div>
+      {ledger.flows.length === 0 && (
+        <div className="text-xs text-gray-400">
+          No ETH sent with calls and no Transfer, Deposit or Withdrawal events in this trace.
+        </div>
+      )}
+      {ledger.flows.length > 0 && (
+        <div className="grid grid-cols-2 gap-4 font-mono text-xs">
+          <div className="max-h-64 overflow-y-auto">
+            <div className="text-gray-400 mb-1">Net balance changes</div>
+            {byParty.map(([party, balances]) => (
+              <div key={party} className="mb-1">
+                {renderParty(party)}
+                {balances.map(balance => (
+                  <div key={balance.token} className="pl-3 flex justify-between gap-2">
+                    {renderToken(balance.token)}
+                    <span className={balance.delta > 0n ? 'text-green-400' : 'text-red-400'}>
+                      {balance.delta > 0n ? '+' : ''}{formatAmount(balance.delta)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="max-h-64 overflow-y-auto">
+            <div className="text-gray-400 mb-1">Flows in execution order</div>
+            {ledger.flows.map((flow, index) => (
+              <div
+                key={`${flow.trace.id}-${index}`}
+                onClick={() => onSelect(flow.trace)}
+                className={`cursor-pointer hover:bg-gray-700 rounded px-1 break-all ${flow.reverted ? 'line-through opacity-50' : ''}`}
+                title={flow.reverted ? 'Reverted' : flow.trace.content}
+              >
+                <span className="text-gray-500">{kindLabels[flow.kind]} </span>
+                {formatAmount(flow.amount)} {renderToken(flow.token)}
+                <span className="text-gray-400"> {renderParty(flow.from)} → {renderParty(flow.to)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LedgerPanel;
@@ -0,0 +1,42 @@
+import { NoiseCategory } from '../parser';
+
+interface NoiseFiltersProps {
+  hidden: Set<NoiseCategory>;
+  onChange: (hidden: Set<NoiseCategory>) => void;
+}
+
+const filters: { category: NoiseCategory; label: string; title: string }[] = [
+  { category: 'cheatcode', label: 'Cheatcodes', title: 'VM::prank, VM::expectRevert, VM::label, ...' },
+  { category: 'console', label: 'Console logs', title: 'console::log calls' },
+  { category: 'staticcall', label: 'Static calls', title: 'View calls such as balance checks; calls made from inside them stay visible' },
+  { category: 'event', label: 'Events', title: 'Emitted events and raw logs' },
+  { category: 'setUp', label: 'setUp', title: 'The setUp() trace of each test' },
+];
+
+// Toggles for hiding the kinds of nodes that crowd test traces
+const NoiseFilters = ({ hidden, onChange }: NoiseFiltersProps) => {
+  const toggle = (category: NoiseCategory) => {
+    const next = new Set(hidden);
+    if (next.has(category)) next.delete(category);
+    else next.add(category);
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+      <span className="text-gray-400">Hide:</span>
+      {filters.map(({ category, label, title }) => (
+        <button
+          key={category}
+          onClick={() => toggle(category)}
+          className={`px-2 py-0.5 rounded ${hidden.has(category) ? 'bg-purple-800 hover:bg-purple-700 text-white line-through' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+          title={title}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default NoiseFilters;
@@ -0,0 +1,59 @@
+import { NUMBER_FORMATS, NumberFormat } from '../parser';
+
+interface NumberFormatBarProps {
+  format: NumberFormat;
+  decimals: number;
+  // Tokens whose decimals() return was found in the trace
+  detectedTokens: number;
+  overrides: number;
+  onFormatChange: (format: NumberFormat) => void;
+  onDecimalsChange: (decimals: number) => void;
+  onResetOverrides: () => void;
+}
+
+// Display mode for every numeric argument and return value
+const NumberFormatBar = ({
+  format,
+  decimals,
+  detectedTokens,
+  overrides,
+  onFormatChange,
+  onDecimalsChange,
+  onResetOverrides,
+}: NumberFormatBarProps) => (
+  <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+    <span className="text-gray-400">Numbers:</span>
+    {NUMBER_FORMATS.map(({ format: value, label }) => (
+      <button
+        key={value}
+        onClick={() => onFormatChange(value)}
+        className={`px-2 py-0.5 rounded ${format === value ? 'bg-teal-800 hover:bg-teal-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+      >
+        {label}
+      </button>
+    ))}
+    {format === 'units' && (
+      <label
+        className="flex items-center gap-1 text-gray-400"
+        title={`Used for tokens whose decimals() is not in the trace${detectedTokens > 0 ? `; ${detectedTokens} detected` : ''}`}
+      >
+        decimals
+        <input
+          type="number"
+          min={0}
+          max={77}
+          value={decimals}
+          onChange={e => onDecimalsChange(Math.min(77, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+          className="w-12 px-1 bg-gray-800 border border-gray-700 rounded text-gray-200"
+        />
+      </label>
+    )}
+    {overrides > 0 && (
+      <button onClick={onResetOverrides} className="text-gray-400 hover:text-white" title="Values switched by double-click">
+        Reset {overrides} per-value format{overrides !== 1 ? 's' : ''}
+      </button>
+    )}
+  </div>
+);
+
+export default NumberFormatBar;
@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { NUMBER_FORMATS, NumberFormat, formatNumber } from '../parser';
+
+interface NumericValueProps {
+  // The value as forge printed it
+  text: string;
+  value: bigint;
+  format: NumberFormat;
+  decimals: number;
+  // Show this value in the next format
+  onCycle: () => void;
+}
+
+// A number in the chosen display format. Click copies the raw value,
+// double-click switches this value to the next format.
+const NumericValue = ({ text, value, format, decimals, onCycle }: NumericValueProps) => {
+  const [copied, setCopied] = useState(false);
+  const formatted = formatNumber(value, format, decimals);
+  // Copy the number itself, without forge's `[1e18]` hint
+  const raw = text.replace(/\s*\[[^\]]*\]$/, '');
+  const label = NUMBER_FORMATS.find(candidate => candidate.format === format)?.label;
+
+  const copy = async (event: React.MouseEvent) => {
+    event.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(raw);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 800);
+    } catch {
+      // Clipboard access denied; nothing to show
+    }
+  };
+
+  return (
+    <span
+      className={`cursor-copy ${formatted !== null ? 'underline decoration-dotted' : ''} ${copied ? 'bg-green-800 text-white rounded' : ''}`}
+      title={`${raw}${format === 'units' ? ` (${decimals} decimals)` : ''}\n${formatted !== null ? `Shown as ${label?.toLowerCase()}\n` : ''}Click to copy, double-click for the next format`}
+      onClick={copy}
+      onDoubleClick={event => {
+        event.stopPropagation();
+        onCycle();
+      }}
+    >
+      {formatted ?? text}
+    </span>
+  );
+};
+
+export default NumericValue;
@@ -0,0 +1,240 @@
+import { useMemo } from 'react';
+import { CallType, Trace, isCreation, isFailure } from '../parser';
+
+interface SequenceDiagramProps {
+  traces: Trace[];
+  expandedItems: Set<string>;
+  // Children to draw below a frame (respecting the noise filters)
+  getChildren: (trace: Trace) => Trace[];
+  getTargetName: (trace: Trace) => string;
+  onToggle: (trace: Trace) => void;
+  onSelect: (trace: Trace) => void;
+}
+
+type Step =
+  | { kind: 'call' | 'return'; trace: Trace; row: number; from: number; to: number }
+  | { kind: 'event'; trace: Trace; row: number; lane: number }
+  | { kind: 'collapsed'; trace: Trace; row: number; lane: number; count: number };
+
+// A frame's bar on its contract's lifeline, from its call to its return
+interface Activation {
+  trace: Trace;
+  lane: number;
+  startRow: number;
+  endRow: number;
+  // How many frames of the same lifeline were already active (reentrancy, self calls)
+  nesting: number;
+  expandable: boolean;
+}
+
+const LANE_WIDTH = 200;
+const ROW_HEIGHT = 26;
+const HEADER_HEIGHT = 36;
+const ACTIVATION_WIDTH = 10;
+// Expanding everything in a huge trace would make an unusably tall diagram
+const MAX_STEPS = 4000;
+
+const callStyles: Record<CallType, { stroke: string; dash?: string }> = {
+  call: { stroke: 'stroke-blue-400' },
+  staticcall: { stroke: 'stroke-gray-400', dash: '4 3' },
+  delegatecall: { stroke: 'stroke-purple-400', dash: '8 3' },
+  callcode: { stroke: 'stroke-orange-400', dash: '8 3' },
+  create: { stroke: 'stroke-green-400' },
+  create2: { stroke: 'stroke-green-400', dash: '8 3' },
+};
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.substring(0, length - 1)}…` : text);
+
+const laneX = (lane: number) => lane * LANE_WIDTH + LANE_WIDTH / 2;
+const rowY = (row: number) => HEADER_HEIGHT + row * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+// Walk the expanded part of the tree into lifelines, arrows and activation bars
+const layoutSequence = (
+  traces: Trace[],
+  expandedItems: Set<string>,
+  getChildren: (trace: Trace) => Trace[],
+  getTargetName: (trace: Trace) => string
+) => {
+  const lanes = ['Caller'];
+  const laneIndex = new Map([['Caller', 0]]);
+  const steps: Step[] = [];
+  const activations: Activation[] = [];
+  const activeOnLane: number[] = [];
+  let row = 0;
+
+  const laneOf = (name: string) => {
+    if (!laneIndex.has(name)) {
+      laneIndex.set(name, lanes.length);
+      lanes.push(name);
+    }
+    return laneIndex.get(name)!;
+  };
+
+  const visit = (node: Trace, callerLane: number) => {
+    if (steps.length >= MAX_STEPS) return;
+    if (node.kind === 'event') {
+      steps.push({ kind: 'event', trace: node, row: row++, lane: callerLane });
+      return;
+    }
+    if (node.kind !== 'call') return;
+
+    const lane = laneOf(getTargetName(node));
+    const startRow = row;
+    const nesting = activeOnLane[lane] ?? 0;
+    activeOnLane[lane] = nesting + 1;
+    steps.push({ kind: 'call', trace: node, row: row++, from: callerLane, to: lane });
+
+    const children = getChildren(node);
+    if (expandedItems.has(node.id)) {
+      children.forEach(child => visit(child, lane));
+    } else if (children.length > 0) {
+      steps.push({ kind: 'collapsed', trace: node, row: row++, lane, count: children.length });
+    }
+
+    steps.push({ kind: 'return', trace: node, row: row++, from: lane, to: callerLane });
+    activeOnLane[lane] = nesting;
+    activations.push({ trace: node, lane, startRow, endRow: row - 1, nesting, expandable: children.length > 0 });
+  };
+
+  traces.forEach(trace => visit(trace, 0));
+  return { lanes, steps, activations, rows: row, truncated: steps.length >= MAX_STEPS };
+};
+
+// One lifeline per contract with arrows for calls and returns. Activation
+// bars expand and collapse frames; arrows jump to the frame in the tree.
+const SequenceDiagram = ({ traces, expandedItems, getChildren, getTargetName, onToggle, onSelect }: SequenceDiagramProps) => {
+  const { lanes, steps, activations, rows, truncated } = useMemo(
+    () => layoutSequence(traces, expandedItems, getChildren, getTargetName),
+    [traces, expandedItems, getChildren, getTargetName]
+  );
+
+  if (steps.length === 0) {
+    return <div className="text-gray-400 text-center py-4">No calls to draw</div>;
+  }
+
+  const width = lanes.length * LANE_WIDTH;
+  const height = HEADER_HEIGHT + rows * ROW_HEIGHT + 10;
+  const activationX = (lane: number, nesting: number) => laneX(lane) - ACTIVATION_WIDTH / 2 + nesting * 4;
+
+  // Arrow between two lifelines, or a loop for calls into the same contract
+  const renderArrow = (step: Extract<Step, { kind: 'call' | 'return' }>) => {
+    const { trace, row, from, to, kind } = step;
+    const failed = kind === 'return' && isFailure(trace);
+    const style = kind === 'call'
+      ? callStyles[trace.callType ?? 'call']
+      : { stroke: failed ? 'stroke-red-500' : 'stroke-gray-500', dash: '3 3' };
+    const y = rowY(row);
+    const callLabel = isCreation(trace)
+      ? `${trace.callType} ${getTargetName(trace)}`
+      : `${trace.callType && trace.callType !== 'call' ? `${trace.callType} ` : ''}${trace.functionName}(${trace.args.map(arg => arg.value).join(', ')})`;
+    const label = kind === 'call'
+      ? callLabel
+      : failed
+        ? `✗ ${trace.revertReason ?? 'revert'}`
+        : trace.returnData || '';
+    const x1 = laneX(from);
+    const x2 = laneX(to);
+    const path = from === to
+      ? `M ${x1 + ACTIVATION_WIDTH} ${y - 6} h 30 v 12 h -30`
+      : `M ${x1} ${y} H ${x2 + (x2 > x1 ? -ACTIVATION_WIDTH / 2 : ACTIVATION_WIDTH / 2)}`;
+    const labelX = from === to ? x1 + 45 : (x1 + x2) / 2;
+
+    return (
+      <g key={`${kind}-${trace.id}`} onClick={() => onSelect(trace)} className="cursor-pointer group">
+        <title>{kind === 'call' ? trace.content : trace.returnContent ?? ''}</title>
+        <path d={path} className={`${style.stroke} fill-none`} strokeWidth={1.5} strokeDasharray={style.dash} markerEnd={`url(#${failed ? 'seq-cross' : 'seq-arrow'})`} />
+        {/* Wider invisible stroke so thin arrows are easy to click */}
+        <path d={path} className="stroke-transparent fill-none" strokeWidth={10} />
+        <text
+          x={labelX}
+          y={y - 4}
+          textAnchor={from === to ? 'start' : 'middle'}
+          className={`text-[11px] ${failed ? 'fill-red-400' : kind === 'call' ? 'fill-gray-200' : 'fill-gray-400'} group-hover:fill-white`}
+        >
+          {truncate(label, Math.max(12, Math.floor((Math.abs(x2 - x1) || LANE_WIDTH) / 7)))}
+        </text>
+      </g>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      {truncated && (
+        <div className="text-yellow-400 text-xs mb-2">
+          Only the first {MAX_STEPS} steps are drawn; collapse frames to see the rest.
+        </div>
+      )}
+      <svg width={width} height={height} className="font-mono">
+        <defs>
+          <marker id="seq-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-gray-300" />
+          </marker>
+          <marker id="seq-cross" viewBox="0 0 10 10" refX="5" refY="5" markerWidth="8" markerHeight="8">
+            <path d="M 1 1 L 9 9 M 9 1 L 1 9" className="stroke-red-500" strokeWidth={2} />
+          </marker>
+        </defs>
+
+        {lanes.map((name, lane) => (
+          <g key={name}>
+            <title>{name}</title>
+            <rect x={laneX(lane) - LANE_WIDTH / 2 + 8} y={4} width={LANE_WIDTH - 16} height={24} rx={4} className="fill-gray-700 stroke-gray-500" />
+            <text x={laneX(lane)} y={20} textAnchor="middle" className="text-xs fill-blue-300">
+              {truncate(name, 24)}
+            </text>
+            <line x1={laneX(lane)} y1={28} x2={laneX(lane)} y2={height} className="stroke-gray-700" strokeDasharray="4 4" />
+          </g>
+        ))}
+
+        {activations.map(activation => (
+          <rect
+            key={`activation-${activation.trace.id}`}
+            x={activationX(activation.lane, activation.nesting)}
+            y={rowY(activation.startRow)}
+            width={ACTIVATION_WIDTH}
+            height={rowY(activation.endRow) - rowY(activation.startRow)}
+            onClick={() => activation.expandable && onToggle(activation.trace)}
+            className={`${isFailure(activation.trace) ? 'fill-red-900 stroke-red-500' : 'fill-gray-800 stroke-gray-400'} ${activation.expandable ? 'cursor-pointer hover:fill-gray-600' : ''}`}
+          >
+            <title>
+              {activation.expandable
+                ? `${expandedItems.has(activation.trace.id) ? 'Collapse' : 'Expand'} ${activation.trace.functionName}`
+                : activation.trace.functionName}
+            </title>
+          </rect>
+        ))}
+
+        {steps.map(step => {
+          switch (step.kind) {
+            case 'call':
+            case 'return':
+              return renderArrow(step);
+            case 'event':
+              return (
+                <g key={`event-${step.trace.id}`} onClick={() => onSelect(step.trace)} className="cursor-pointer">
+                  <title>{step.trace.content}</title>
+                  <circle cx={laneX(step.lane) + ACTIVATION_WIDTH + 4} cy={rowY(step.row)} r={4} className="fill-yellow-400" />
+                  <text x={laneX(step.lane) + ACTIVATION_WIDTH + 12} y={rowY(step.row) + 4} className="text-[11px] fill-yellow-300">
+                    {truncate(step.trace.functionName ? `emit ${step.trace.functionName}` : 'raw log', 28)}
+                  </text>
+                </g>
+              );
+            case 'collapsed':
+              return (
+                <text
+                  key={`collapsed-${step.trace.id}`}
+                  x={laneX(step.lane) + ACTIVATION_WIDTH + 4}
+                  y={rowY(step.row) + 4}
+                  onClick={() => onToggle(step.trace)}
+                  className="text-[11px] fill-gray-400 cursor-pointer hover:fill-white"
+                >
+                  ► {step.count} collapsed
+                </text>
+              );
+          }
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default SequenceDiagram;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { SessionFile, parseSessionFile } from '../session';
+
+interface SessionPanelProps {
+  // Builds the file to export, or null when nothing is loaded
+  getSessionFile: () => SessionFile | null;
+  onImport: (file: SessionFile) => void;
+  onForget: () => void;
+}
+
+// Export the trace with its view state and notes, or open one a teammate sent
+const SessionPanel = ({ getSessionFile, onImport, onForget }: SessionPanelProps) => {
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const sessionFile = getSessionFile();
+    if (!sessionFile) return;
+
+    const blob = new Blob([JSON.stringify(sessionFile)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${sessionFile.name.replace(/\.[^.]*$/, '')}.session.json`;
+    link.click();
+    // Revoking right away can cancel the download before it starts
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onImport(parseSessionFile(JSON.parse(await file.text())));
+      setMessage(`Opened session ${file.name}`);
+    } catch (error) {
+      setMessage(`Could not read ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return (
+    <div className="mb-2 p-2 bg-gray-800 border border-gray-700 rounded-md text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-bold">Session</span>
+        <button
+          onClick={handleExport}
+          className="px-2 py-0.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs"
+          title="Download the trace together with expanded frames, search, bookmarks and notes"
+        >
+          Export
+        </button>
+        <input type="file" id="session-import" onChange={handleImport} className="hidden" accept=".json" />
+        <label
+          htmlFor="session-import"
+          className="cursor-pointer px-2 py-0.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs"
+        >
+          Import
+        </label>
+        <button
+          onClick={onForget}
+          className="px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs"
+          title="Delete the saved view state and bookmarks of this trace"
+        >
+          Forget saved session
+        </button>
+      </div>
+      <div className="text-xs text-gray-400 mt-2">
+        {message ?? 'The view of every trace is saved in this browser and restored when the same file is opened again.'}
+      </div>
+    </div>
+  );
+};
+
+export default SessionPanel;
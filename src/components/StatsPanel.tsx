@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { FunctionStats, Trace, TraceStats, formatGas } from '../parser';
+
+interface StatsPanelProps {
+  stats: TraceStats;
+  onSelect: (trace: Trace) => void;
+}
+
+type Tab = 'functions' | 'edges' | 'events';
+type FunctionSort = 'calls' | 'totalGas' | 'selfGas' | 'reverts';
+
+const tabs: { tab: Tab; label: string }[] = [
+  { tab: 'functions', label: 'Functions' },
+  { tab: 'edges', label: 'Who calls whom' },
+  { tab: 'events', label: 'Events' },
+];
+
+const functionColumns: { sort: FunctionSort; label: string }[] = [
+  { sort: 'calls', label: 'Calls' },
+  { sort: 'totalGas', label: 'Total gas' },
+  { sort: 'selfGas', label: 'Self gas' },
+  { sort: 'reverts', label: 'Reverts' },
+];
+
+// ◀ n/N ▶ buttons that step through the occurrences of a row in the tree
+const OccurrenceStepper = ({ occurrences, onSelect }: { occurrences: Trace[]; onSelect: (trace: Trace) => void }) => {
+  const [index, setIndex] = useState<number | null>(null);
+
+  const step = (delta: number) => {
+    const next = index === null ? (delta > 0 ? 0 : occurrences.length - 1) : (index + delta + occurrences.length) % occurrences.length;
+    setIndex(next);
+    onSelect(occurrences[next]);
+  };
+
+  return (
+    <span className="whitespace-nowrap">
+      <button onClick={() => step(-1)} className="px-1 text-gray-400 hover:text-white" title="Previous occurrence">◀</button>
+      <span className="text-gray-400 inline-block min-w-12 text-center">
+        {index === null ? occurrences.length : `${index + 1}/${occurrences.length}`}
+      </span>
+      <button onClick={() => step(1)} className="px-1 text-gray-400 hover:text-white" title="Next occurrence">▶</button>
+    </span>
+  );
+};
+
+// Aggregated view of the tree: hot functions, contract-to-contract calls and events
+const StatsPanel = ({ stats, onSelect }: StatsPanelProps) => {
+  const [tab, setTab] = useState<Tab>('functions');
+  const [functionSort, setFunctionSort] = useState<FunctionSort>('calls');
+
+  const functions = [...stats.functions].sort((a: FunctionStats, b: FunctionStats) => b[functionSort] - a[functionSort]);
+
+  return (
+    <div className="mb-2 p-2 bg-gray-800 border border-gray-700 rounded-md text-sm">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="font-bold">Statistics</span>
+        {tabs.map(({ tab: value, label }) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`px-2 py-0.5 rounded text-xs ${tab === value ? 'bg-blue-800 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="max-h-80 overflow-y-auto font-mono text-xs">
+        <table className="w-full">
+          {tab === 'functions' && (
+            <>
+              <thead className="sticky top-0 bg-gray-800 text-gray-400">
+                <tr>
+                  <th className="text-left">Function</th>
+                  {functionColumns.map(({ sort, label }) => (
+                    <th
+                      key={sort}
+                      onClick={() => setFunctionSort(sort)}
+                      className={`text-right cursor-pointer hover:text-white ${functionSort === sort ? 'text-white' : ''}`}
+                    >
+                      {label}{functionSort === sort && ' ▼'}
+                    </th>
+                  ))}
+                  <th className="text-right">Occurrences</th>
+                </tr>
+              </thead>
+              <tbody>
+                {functions.map(row => (
+                  <tr key={row.key} className="border-t border-gray-700">
+                    <td className="break-all">
+                      <span className="text-blue-300">{row.contract}</span>::{row.functionName}
+                    </td>
+                    <td className="text-right">{row.calls}</td>
+                    <td className="text-right">{formatGas(row.totalGas)}</td>
+                    <td className="text-right text-orange-300">{formatGas(row.selfGas)}</td>
+                    <td className={`text-right ${row.reverts > 0 ? 'text-red-400' : 'text-gray-500'}`}>{row.reverts}</td>
+                    <td className="text-right"><OccurrenceStepper occurrences={row.occurrences} onSelect={onSelect} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </>
+          )}
+          {tab === 'edges' && (
+            <>
+              <thead className="sticky top-0 bg-gray-800 text-gray-400">
+                <tr>
+                  <th className="text-left">Caller → callee</th>
+                  <th className="text-right">Calls</th>
+                  <th className="text-right">Occurrences</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.edges.map(row => (
+                  <tr key={row.key} className="border-t border-gray-700">
+                    <td className="break-all">
+                      <span className="text-blue-300">{row.from}</span> → <span className="text-blue-300">{row.to}</span>
+                    </td>
+                    <td className="text-right">{row.calls}</td>
+                    <td className="text-right"><OccurrenceStepper occurrences={row.occurrences} onSelect={onSelect} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </>
+          )}
+          {tab === 'events' && (
+            <>
+              <thead className="sticky top-0 bg-gray-800 text-gray-400">
+                <tr>
+                  <th className="text-left">Event</th>
+                  <th className="text-right">Count</th>
+                  <th className="text-right">Occurrences</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.events.map(row => (
+                  <tr key={row.key} className="border-t border-gray-700">
+                    <td className="break-all">
+                      <span className="text-blue-300">{row.contract}</span> <span className="text-yellow-300">{row.name}</span>
+                    </td>
+                    <td className="text-right">{row.count}</td>
+                    <td className="text-right"><OccurrenceStepper occurrences={row.occurrences} onSelect={onSelect} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </>
+          )}
+        </table>
+        {tab === 'functions' && functions.length === 0 && <div className="text-gray-500">No calls</div>}
+        {tab === 'edges' && stats.edges.length === 0 && <div className="text-gray-500">No calls</div>}
+        {tab === 'events' && stats.events.length === 0 && <div className="text-gray-500">No events</div>}
+      </div>
+    </div>
+  );
+};
+
+export default StatsPanel;
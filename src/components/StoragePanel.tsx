@@ -0,0 +1,110 @@
+import { useMemo } from 'react';
+import { AbiIndex } from '../abi';
+import { LocatedStorageChange, Trace, collectStorageChanges, getStorageKey, normalizeSlot } from '../parser';
+
+interface StoragePanelProps {
+  traces: Trace[];
+  abiIndex: AbiIndex | null;
+  getLabel: (address: string) => string | null;
+  onSelect: (trace: Trace) => void;
+}
+
+// Changes to one slot of one contract, in execution order
+interface SlotGroup {
+  slot: string;
+  changes: LocatedStorageChange[];
+}
+
+interface ContractGroup {
+  key: string;
+  name: string;
+  address: string | null;
+  slots: SlotGroup[];
+}
+
+// Group changes by the contract whose storage they touched, then by slot
+const groupChanges = (changes: LocatedStorageChange[]): ContractGroup[] => {
+  const contracts = new Map<string, ContractGroup>();
+
+  changes.forEach(located => {
+    const { owner, change } = located;
+    const key = getStorageKey(owner);
+    let contract = contracts.get(key);
+    if (!contract) {
+      contract = { key, name: owner.contractName ?? owner.address ?? owner.content, address: owner.address, slots: [] };
+      contracts.set(key, contract);
+    }
+
+    const slot = normalizeSlot(change.slot);
+    let slotGroup = contract.slots.find(group => group.slot === slot);
+    if (!slotGroup) {
+      slotGroup = { slot, changes: [] };
+      contract.slots.push(slotGroup);
+    }
+    slotGroup.changes.push(located);
+  });
+
+  return [...contracts.values()];
+};
+
+const StoragePanel = ({ traces, abiIndex, getLabel, onSelect }: StoragePanelProps) => {
+  const groups = useMemo(() => groupChanges(collectStorageChanges(traces)), [traces]);
+
+  // Name a slot from the storage layout of the code that wrote it. Behind a
+  // proxy the storage is the proxy's but the layout the implementation's,
+  // so the frames entered through delegatecall are tried after the owner.
+  const getSlotName = (contract: ContractGroup, { slot, changes }: SlotGroup) =>
+    [contract.name, ...changes.map(({ frame }) => frame.contractName)]
+      .map(name => (name ? abiIndex?.storageLabels.get(name)?.get(slot) : undefined))
+      .find(slotName => slotName !== undefined) ?? null;
+
+  return (
+    <div className="mb-2 p-2 bg-gray-800 border border-gray-700 rounded-md text-sm">
+      <div className="font-bold mb-2">Storage Changes</div>
+      {groups.length === 0 && (
+        <div className="text-xs text-gray-400">
+          No storage changes in this trace. Run forge with -vvvvv to include them.
+        </div>
+      )}
+      <div className="max-h-64 overflow-y-auto font-mono text-xs space-y-2">
+        {groups.map(contract => {
+          const label = contract.address ? getLabel(contract.address) : null;
+          return (
+            <div key={contract.key}>
+              <div className="text-blue-300 font-bold" title={contract.address ?? undefined}>
+                {label ?? contract.name}
+              </div>
+              {contract.slots.map(slotGroup => {
+                const { slot, changes } = slotGroup;
+                const slotName = getSlotName(contract, slotGroup);
+                return (
+                  <div key={slot} className="pl-2 border-l border-gray-700 ml-1 mb-1">
+                    <div className="text-gray-300" title={`slot ${slot}`}>
+                      slot {slot.length > 20 ? `${slot.slice(0, 10)}…` : slot}
+                      {slotName && <span className="text-yellow-300 ml-1">({slotName})</span>}
+                    </div>
+                    {changes.map(({ change, frame }) => (
+                      <div
+                        key={`${frame.id}-${change.line}`}
+                        onClick={() => onSelect(frame)}
+                        className="pl-2 cursor-pointer hover:bg-gray-700 rounded break-all"
+                        title={`Made by ${frame.content}`}
+                      >
+                        <span className="text-red-300">{change.oldValue}</span>
+                        <span className="text-gray-400"> → </span>
+                        <span className="text-green-300">{change.newValue}</span>
+                        {frame.functionName && <span className="text-gray-500"> in {frame.functionName}</span>}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StoragePanel;
@@ -0,0 +1,64 @@
+import { TestResult, TestStatus, TestSuite, formatGas } from '../parser';
+
+interface TestNavigatorProps {
+  suites: TestSuite[];
+  summary: string | null;
+  selectedTestId: string | null;
+  onSelect: (test: TestResult | null) => void;
+}
+
+const statusIcons: Record<TestStatus, string> = {
+  pass: '✅',
+  fail: '❌',
+  skip: '⏭',
+};
+
+const TestNavigator = ({ suites, summary, selectedTestId, onSelect }: TestNavigatorProps) => {
+  return (
+    <div className="p-2 text-xs">
+      <button
+        onClick={() => onSelect(null)}
+        className={`w-full text-left px-2 py-1 rounded mb-1 ${selectedTestId === null ? 'bg-blue-800 text-white' : 'hover:bg-gray-700'}`}
+      >
+        All tests
+      </button>
+      {suites.map(suite => {
+        const countStatus = (status: TestStatus) => suite.tests.filter(test => test.status === status).length;
+        const passed = countStatus('pass');
+        const failed = countStatus('fail');
+        const skipped = countStatus('skip');
+        return (
+          <div key={suite.id} className="mb-2">
+            <div className="text-gray-300 font-bold break-all px-1 py-1 border-b border-gray-700" title={suite.summary ?? undefined}>
+              {suite.name}
+              <span className={`ml-1 font-normal ${failed > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                ({passed}/{passed + failed})
+              </span>
+              {skipped > 0 && <span className="ml-1 font-normal text-gray-400">{skipped} skipped</span>}
+            </div>
+            {suite.tests.map(test => (
+              <div
+                key={test.id}
+                onClick={() => onSelect(test)}
+                className={`px-2 py-1 rounded cursor-pointer ${selectedTestId === test.id ? 'bg-blue-800 text-white' : 'hover:bg-gray-700'}`}
+                title={test.reason ?? test.name}
+              >
+                <div className="flex justify-between gap-1">
+                  <span className="truncate">
+                    {statusIcons[test.status]} {test.name}
+                  </span>
+                  <span className="text-gray-400 flex-shrink-0">{formatGas(test.gas)}</span>
+                </div>
+                {test.reason && <div className="text-red-400 truncate pl-5">{test.reason}</div>}
+                {test.traces.length === 0 && <div className="text-gray-500 pl-5">no traces</div>}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+      {summary && <div className="text-gray-500 px-1 pt-1 border-t border-gray-700">{summary}</div>}
+    </div>
+  );
+};
+
+export default TestNavigator;
@@ -0,0 +1,106 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { ExportFormat } from '../export';
+import { Trace } from '../parser';
+
+interface TraceContextMenuProps {
+  trace: Trace;
+  x: number;
+  y: number;
+  // Render the subtree in a format, limited to `maxDepth` levels below the node
+  exportAs: (trace: Trace, format: ExportFormat, maxDepth: number | null) => string;
+  onClose: () => void;
+}
+
+const formats: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'Copy subtree as JSON' },
+  { format: 'markdown', label: 'Copy as Markdown list' },
+  { format: 'text', label: 'Copy as forge-style text' },
+  { format: 'mermaid', label: 'Copy as Mermaid sequence diagram' },
+];
+
+// Gap kept between the menu and the window edges
+const VIEWPORT_MARGIN = 4;
+
+// Right-click menu of a frame. Exports follow what is on screen:
+// collapsed frames are cut off and filtered nodes left out.
+const TraceContextMenu = ({ trace, x, y, exportAs, onClose }: TraceContextMenuProps) => {
+  const [depthLimit, setDepthLimit] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [position, setPosition] = useState({ left: x, top: y });
+  // Closes the menu shortly after a copy
+  const closeTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  // A pending close belongs to this opening; drop it when the menu is
+  // reopened elsewhere or unmounted
+  useEffect(() => () => clearTimeout(closeTimer.current), [trace, x, y]);
+
+  // Open at the cursor, moved back inside the window when it would overflow.
+  // Measured before paint, and again when the copy message grows the menu.
+  useLayoutEffect(() => {
+    const menu = menuRef.current;
+    if (!menu) return;
+    const { width, height } = menu.getBoundingClientRect();
+    setPosition({
+      left: Math.max(VIEWPORT_MARGIN, Math.min(x, window.innerWidth - width - VIEWPORT_MARGIN)),
+      top: Math.max(VIEWPORT_MARGIN, Math.min(y, window.innerHeight - height - VIEWPORT_MARGIN)),
+    });
+  }, [x, y, message]);
+
+  // Close on any click outside the menu or on Escape
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('click', onClose);
+    window.addEventListener('keydown', handleKey);
+    return () => {
+      window.removeEventListener('click', onClose);
+      window.removeEventListener('keydown', handleKey);
+    };
+  }, [onClose]);
+
+  const copy = async (format: ExportFormat, label: string) => {
+    const maxDepth = depthLimit ? parseInt(depthLimit, 10) : null;
+    try {
+      await navigator.clipboard.writeText(exportAs(trace, format, maxDepth));
+      setMessage(`Copied ${label.replace(/^Copy (subtree )?as /, '')}`);
+      closeTimer.current = setTimeout(onClose, 600);
+    } catch (error) {
+      setMessage(`Could not copy: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return (
+    <div
+      ref={menuRef}
+      className="fixed z-50 min-w-56 py-1 bg-gray-800 border border-gray-600 rounded shadow-lg text-sm text-gray-200"
+      style={position}
+      onClick={e => e.stopPropagation()}
+    >
+      {formats.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => copy(format, label)}
+          className="block w-full text-left px-3 py-1 hover:bg-gray-700"
+        >
+          {label}
+        </button>
+      ))}
+      <label className="flex items-center gap-2 px-3 py-1 text-xs text-gray-400 border-t border-gray-700">
+        Depth limit
+        <input
+          type="number"
+          min={0}
+          value={depthLimit}
+          onChange={e => setDepthLimit(e.target.value)}
+          placeholder="all"
+          className="w-16 px-1 bg-gray-900 border border-gray-700 rounded text-gray-200"
+        />
+      </label>
+      {message && <div className="px-3 py-1 text-xs text-green-400">{message}</div>}
+    </div>
+  );
+};
+
+export default TraceContextMenu;
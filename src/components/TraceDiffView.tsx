@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { DiffStatus, Trace, TraceDiff, formatGas, summarizeDiff } from '../parser';
+import VirtualTraceList from './VirtualTraceList';
+
+interface TraceDiffViewProps {
+  diffs: TraceDiff[];
+  beforeName: string;
+  afterName: string;
+  renderFrame: (trace: Trace) => React.ReactNode;
+  onClose: () => void;
+}
+
+interface DiffRow {
+  key: string;
+  diff: TraceDiff;
+  depth: number;
+}
+
+const statusStyles: Record<DiffStatus, string> = {
+  same: '',
+  changed: 'bg-yellow-900 bg-opacity-40',
+  added: 'bg-green-900 bg-opacity-50',
+  removed: 'bg-red-900 bg-opacity-50',
+};
+
+// Subtrees with differences start expanded, identical ones collapsed
+const getInitialExpanded = (diffs: TraceDiff[]) => {
+  const expanded = new Set<string>();
+  const stack = [...diffs];
+  while (stack.length > 0) {
+    const diff = stack.pop()!;
+    if (!diff.identical) {
+      expanded.add(diff.id);
+      stack.push(...diff.children);
+    }
+  }
+  return expanded;
+};
+
+const countFrames = (diff: TraceDiff): number =>
+  diff.children.reduce((count, child) => count + countFrames(child), diff.children.length);
+
+const formatDelta = (delta: number | null) => {
+  if (delta === null || delta === 0) return null;
+  return (
+    <span className={delta > 0 ? 'text-red-400' : 'text-green-400'}>
+      {delta > 0 ? '+' : '-'}{formatGas(Math.abs(delta))}
+    </span>
+  );
+};
+
+// Two trace trees side by side, aligned frame by frame
+const TraceDiffView = ({ diffs, beforeName, afterName, renderFrame, onClose }: TraceDiffViewProps) => {
+  const [expanded, setExpanded] = useState(() => getInitialExpanded(diffs));
+  // Start over when either side is reloaded
+  const [expandedFor, setExpandedFor] = useState(diffs);
+  if (expandedFor !== diffs) {
+    setExpandedFor(diffs);
+    setExpanded(getInitialExpanded(diffs));
+  }
+  const summary = useMemo(() => summarizeDiff(diffs), [diffs]);
+
+  const rows = useMemo(() => {
+    const result: DiffRow[] = [];
+    const stack = [...diffs].reverse().map(diff => ({ diff, depth: 0 }));
+    while (stack.length > 0) {
+      const { diff, depth } = stack.pop()!;
+      result.push({ key: diff.id, diff, depth });
+      if (expanded.has(diff.id)) {
+        for (let i = diff.children.length - 1; i >= 0; i--) {
+          stack.push({ diff: diff.children[i], depth: depth + 1 });
+        }
+      }
+    }
+    return result;
+  }, [diffs, expanded]);
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const renderSide = (trace: Trace | null, depth: number) => (
+    <div className="min-w-0 font-mono text-sm whitespace-pre-wrap break-all text-gray-200" style={{ paddingLeft: `${depth * 16}px` }}>
+      {trace && renderFrame(trace)}
+    </div>
+  );
+
+  const renderRow = ({ diff, depth }: DiffRow) => {
+    const hasChildren = diff.children.length > 0;
+    const isExpanded = expanded.has(diff.id);
+    return (
+      <div
+        className={`grid grid-cols-[1.5rem_1fr_1fr_6rem] gap-2 py-1 border-b border-gray-800 ${statusStyles[diff.status]} ${hasChildren ? 'cursor-pointer hover:bg-gray-800' : ''}`}
+        onClick={() => hasChildren && toggle(diff.id)}
+      >
+        <span className="text-gray-400 text-center">{hasChildren ? (isExpanded ? '▼' : '►') : ''}</span>
+        {renderSide(diff.before, depth)}
+        {renderSide(diff.after, depth)}
+        <div className="text-right font-mono text-xs pr-2">
+          {formatDelta(diff.gasDelta)}
+          {diff.identical && hasChildren && !isExpanded && (
+            <div className="text-gray-500">{countFrames(diff)} identical</div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-2 text-sm">
+        <span>
+          <span className="text-green-400">+{summary.added} added</span>{' '}
+          <span className="text-red-400">-{summary.removed} removed</span>{' '}
+          <span className="text-yellow-400">~{summary.changed} changed</span>
+        </span>
+        <span className="font-mono">
+          Total gas {formatGas(summary.gasBefore)} → {formatGas(summary.gasAfter)}{' '}
+          {formatDelta(summary.gasAfter - summary.gasBefore)}
+        </span>
+        <button
+          onClick={onClose}
+          className="ml-auto px-2 py-0.5 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs"
+        >
+          Close comparison
+        </button>
+      </div>
+      <div className="grid grid-cols-[1.5rem_1fr_1fr_6rem] gap-2 pb-1 mb-1 border-b border-gray-700 text-xs font-bold text-gray-400">
+        <span></span>
+        <span className="truncate">Before: {beforeName}</span>
+        <span className="truncate">After: {afterName}</span>
+        <span className="text-right pr-2">Δ gas</span>
+      </div>
+      <VirtualTraceList rows={rows} renderRow={renderRow} scrollRequest={null} />
+    </div>
+  );
+};
+
+export default TraceDiffView;
@@ -0,0 +1,83 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
+import { TraceRow } from './traceRows';
+
+// Row to bring into view. `quiet` requests (e.g. from keyboard navigation)
+// scroll as little as possible instead of centering the row.
+export interface ScrollRequest {
+  key: string;
+  quiet?: boolean;
+}
+
+interface VirtualTraceListProps<Row extends { key: string }> {
+  rows: Row[];
+  renderRow: (row: Row) => React.ReactNode;
+  // Row to bring into view; pass a new object for every request so
+  // scrolling to the same row twice still works
+  scrollRequest: ScrollRequest | null;
+  // Called once the requested row has been scrolled to and mounted
+  onScrolledTo?: (request: ScrollRequest) => void;
+}
+
+// Rough height of a single-line row, refined by measuring rendered rows
+const ESTIMATED_ROW_HEIGHT = 28;
+
+// Only the rows in (and slightly around) the viewport are mounted, so
+// fully expanded traces with 100k+ lines stay responsive
+const VirtualTraceList = <Row extends { key: string } = TraceRow>({
+  rows,
+  renderRow,
+  scrollRequest,
+  onScrolledTo,
+}: VirtualTraceListProps<Row>) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const handledRequest = useRef<ScrollRequest | null>(null);
+  const [scrollMargin, setScrollMargin] = useState(0);
+
+  // The list scrolls with the page, so the virtualizer needs its offset
+  useLayoutEffect(() => {
+    if (listRef.current) {
+      setScrollMargin(listRef.current.getBoundingClientRect().top + window.scrollY);
+    }
+  }, [rows]);
+
+  const virtualizer = useWindowVirtualizer({
+    count: rows.length,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: 20,
+    scrollMargin,
+    getItemKey: index => rows[index].key,
+  });
+
+  useEffect(() => {
+    if (!scrollRequest || handledRequest.current === scrollRequest) return;
+
+    // Ancestors are expanded along with the request, so a row that is still
+    // missing is filtered out; drop the request rather than scroll later
+    handledRequest.current = scrollRequest;
+    const index = rows.findIndex(row => row.key === scrollRequest.key);
+    if (index === -1) return;
+
+    virtualizer.scrollToIndex(index, { align: scrollRequest.quiet ? 'auto' : 'center' });
+    // Give the virtualizer a frame to mount the row before reporting back
+    requestAnimationFrame(() => onScrolledTo?.(scrollRequest));
+  }, [rows, scrollRequest, virtualizer, onScrolledTo]);
+
+  return (
+    <div ref={listRef} className="relative w-full" style={{ height: `${virtualizer.getTotalSize()}px` }}>
+      {virtualizer.getVirtualItems().map(item => (
+        <div
+          key={item.key}
+          data-index={item.index}
+          ref={virtualizer.measureElement}
+          className="absolute top-0 left-0 w-full"
+          style={{ transform: `translateY(${item.start - virtualizer.options.scrollMargin}px)` }}
+        >
+          {renderRow(rows[item.index])}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VirtualTraceList;
@@ -0,0 +1,59 @@
+import { NoiseCategory, Trace, getVisibleChildren, sortByGas } from '../parser';
+
+// A single line of the flattened, windowed tree: either a frame or the
+// return line that closes an expanded frame
+export interface TraceRow {
+  key: string;
+  trace: Trace;
+  isReturn: boolean;
+  // Indentation level; less than trace.depth when hidden ancestors were lifted out
+  depth: number;
+  // Children left after filtering, and how many were filtered out
+  childCount: number;
+  hiddenCount: number;
+}
+
+// Flatten the expanded part of the tree into rows in display order, leaving
+// out hidden nodes. Iterative so very deep call stacks can't overflow the JS stack.
+export const flattenTraceRows = (
+  traces: Trace[],
+  expandedItems: Set<string>,
+  sortChildrenByGas: boolean,
+  hidden: Set<NoiseCategory>
+): TraceRow[] => {
+  const rows: TraceRow[] = [];
+  // Pending work in reverse order: a frame, or the return row to emit after its children
+  const stack: { trace: Trace; depth: number; isReturn: boolean }[] = [];
+
+  const pushAll = (nodes: Trace[], depth: number) => {
+    const ordered = sortChildrenByGas ? sortByGas(nodes) : nodes;
+    for (let i = ordered.length - 1; i >= 0; i--) {
+      stack.push({ trace: ordered[i], depth, isReturn: false });
+    }
+  };
+
+  pushAll(getVisibleChildren(traces, hidden).children, 0);
+  while (stack.length > 0) {
+    const { trace, depth, isReturn } = stack.pop()!;
+    if (isReturn) {
+      rows.push({ key: `${trace.id}-return`, trace, isReturn, depth, childCount: 0, hiddenCount: 0 });
+      continue;
+    }
+
+    const { children, hiddenCount } = getVisibleChildren(trace.children, hidden);
+    rows.push({ key: trace.id, trace, isReturn, depth, childCount: children.length, hiddenCount });
+
+    if (children.length > 0 && expandedItems.has(trace.id)) {
+      if (trace.returnContent) {
+        stack.push({ trace, depth: depth + 1, isReturn: true });
+      }
+      pushAll(children, depth + 1);
+    }
+  }
+
+  return rows;
+};
+
+// Rows for a flat list of traces (e.g. search results), without children
+export const toFlatRows = (traces: Trace[]): TraceRow[] =>
+  traces.map(trace => ({ key: trace.id, trace, isReturn: false, depth: trace.depth, childCount: 0, hiddenCount: 0 }));
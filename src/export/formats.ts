@@ -0,0 +1,172 @@
+import { Trace, TraceArg, isCreation, isFailure } from '../parser';
+
+export type ExportFormat = 'json' | 'markdown' | 'text' | 'mermaid';
+
+export interface ExportOptions {
+  // Children to include below a node; lets the caller leave out collapsed
+  // and filtered nodes. The exported node's own children are always asked for.
+  getChildren: (trace: Trace) => Trace[];
+  // Display name of a call's target (contract name, label or address)
+  getTargetName: (trace: Trace) => string;
+  // Levels below the exported node to include; null for all
+  maxDepth?: number | null;
+}
+
+// Shape of a node in JSON exports: the parsed fields without the parent link
+export interface ExportedTrace {
+  kind: Trace['kind'];
+  target: string | null;
+  function: string | null;
+  callType: Trace['callType'];
+  value: string | null;
+  args: TraceArg[];
+  gas: number | null;
+  status: Trace['status'];
+  returnData: string | null;
+  revertReason: string | null;
+  content: string;
+  children: ExportedTrace[];
+}
+
+const formatArgs = (args: TraceArg[]) =>
+  args.map(arg => (arg.name ? `${arg.name}: ${arg.value}` : arg.value)).join(', ');
+
+const withinDepth = (level: number, options: ExportOptions) =>
+  options.maxDepth === null || options.maxDepth === undefined || level < options.maxDepth;
+
+const toExportedTrace = (trace: Trace, level: number, options: ExportOptions): ExportedTrace => ({
+  kind: trace.kind,
+  target: trace.kind === 'text' ? null : options.getTargetName(trace),
+  function: trace.functionName,
+  callType: trace.callType,
+  value: trace.value,
+  args: trace.args,
+  gas: trace.gas,
+  status: trace.status,
+  returnData: trace.returnData,
+  revertReason: trace.revertReason,
+  content: trace.content,
+  children: withinDepth(level, options)
+    ? options.getChildren(trace).map(child => toExportedTrace(child, level + 1, options))
+    : [],
+});
+
+export const exportJson = (trace: Trace, options: ExportOptions) =>
+  JSON.stringify(toExportedTrace(trace, 0, options), null, 2);
+
+// One line summary of a node for list-style formats
+const summarize = (trace: Trace, options: ExportOptions) => {
+  if (trace.kind === 'event') {
+    return trace.functionName ? `emit ${trace.functionName}(${formatArgs(trace.args)})` : trace.content.split('\n')[0];
+  }
+  if (trace.kind !== 'call') return trace.content.replace(/^\[\d+\]\s*/, '');
+  if (isCreation(trace)) {
+    // Unnamed contracts fall back to their address, which follows anyway
+    const name = options.getTargetName(trace);
+    return `→ new ${name === trace.address ? '<unknown>' : name}@${trace.address}${trace.callType === 'create2' ? ' [create2]' : ''}`;
+  }
+
+  const value = trace.value !== null ? `{value: ${trace.value}}` : '';
+  const callType = trace.callType && trace.callType !== 'call' ? ` [${trace.callType}]` : '';
+  return `${options.getTargetName(trace)}::${trace.functionName}${value}(${formatArgs(trace.args)})${callType}`;
+};
+
+export const exportMarkdown = (trace: Trace, options: ExportOptions) => {
+  const lines: string[] = [];
+  const visit = (node: Trace, level: number) => {
+    const gas = node.gas !== null ? ` _(${node.gas} gas)_` : '';
+    const result = node.returnContent ? ` → \`${node.returnContent.replace(/^←\s*/, '')}\`` : '';
+    lines.push(`${'  '.repeat(level)}- \`${summarize(node, options)}\`${gas}${result}`);
+    if (withinDepth(level, options)) {
+      options.getChildren(node).forEach(child => visit(child, level + 1));
+    }
+  };
+  visit(trace, 0);
+  return lines.join('\n');
+};
+
+// Indented like forge prints traces, so excerpts read the same as the terminal
+export const exportText = (trace: Trace, options: ExportOptions) => {
+  const lines: string[] = [];
+  const visit = (node: Trace, prefix: string, childPrefix: string, level: number) => {
+    const [first, ...rest] = node.content.split('\n');
+    lines.push(`${prefix}${first}`);
+    // Continuation lines (e.g. topics of raw logs) line up under the node
+    rest.forEach(line => lines.push(`${childPrefix}    ${line}`));
+
+    const children = withinDepth(level, options) ? options.getChildren(node) : [];
+    const omitted = withinDepth(level, options) ? 0 : options.getChildren(node).length;
+    const entries: { trace: Trace | null; text: string | null }[] = [
+      ...children.map(child => ({ trace: child, text: null })),
+      ...(omitted > 0 ? [{ trace: null, text: `… ${omitted} more frame${omitted !== 1 ? 's' : ''}` }] : []),
+      ...(node.returnContent ? [{ trace: null, text: node.returnContent }] : []),
+    ];
+
+    entries.forEach((entry, index) => {
+      const last = index === entries.length - 1;
+      const branch = `${childPrefix}${last ? '└─ ' : '├─ '}`;
+      if (entry.trace) visit(entry.trace, branch, `${childPrefix}${last ? '    ' : '│   '}`, level + 1);
+      else lines.push(`${branch}${entry.text}`);
+    });
+  };
+  visit(trace, '', '', 0);
+  return lines.join('\n');
+};
+
+// Mermaid chokes on `;` and `#` in messages, and long argument lists make unreadable arrows
+const escapeMermaid = (text: string) => {
+  const escaped = text.replace(/#/g, '#35;').replace(/;/g, '#59;').replace(/\n/g, ' ');
+  return escaped.length > 80 ? `${escaped.substring(0, 77)}...` : escaped;
+};
+
+export const exportMermaid = (trace: Trace, options: ExportOptions) => {
+  const participants = new Map<string, string>();
+  const messages: string[] = [];
+
+  const participant = (name: string) => {
+    if (!participants.has(name)) participants.set(name, `P${participants.size}`);
+    return participants.get(name)!;
+  };
+
+  const visit = (node: Trace, caller: string, level: number) => {
+    if (node.kind === 'event') {
+      messages.push(`  Note over ${caller}: ${escapeMermaid(summarize(node, options))}`);
+      return;
+    }
+    if (node.kind !== 'call') return;
+
+    const target = participant(options.getTargetName(node));
+    const callType = node.callType && node.callType !== 'call' ? `${node.callType} ` : '';
+    const message = isCreation(node) ? `${callType}${options.getTargetName(node)}` : `${callType}${node.functionName}(${formatArgs(node.args)})`;
+    messages.push(`  ${caller}->>+${target}: ${escapeMermaid(message)}`);
+    if (withinDepth(level, options)) {
+      options.getChildren(node).forEach(child => visit(child, target, level + 1));
+    }
+
+    const failed = isFailure(node);
+    const result = failed ? node.revertReason ?? 'revert' : node.returnData ?? '';
+    messages.push(`  ${target}-${failed ? '-x' : '->>'}-${caller}: ${escapeMermaid(result || 'return')}`);
+  };
+
+  const caller = participant('Caller');
+  visit(trace, caller, 0);
+
+  return [
+    'sequenceDiagram',
+    ...[...participants].map(([name, id]) => `  participant ${id} as ${escapeMermaid(name)}`),
+    ...messages,
+  ].join('\n');
+};
+
+export const exportTrace = (trace: Trace, format: ExportFormat, options: ExportOptions) => {
+  switch (format) {
+    case 'json':
+      return exportJson(trace, options);
+    case 'markdown':
+      return exportMarkdown(trace, options);
+    case 'text':
+      return exportText(trace, options);
+    case 'mermaid':
+      return exportMermaid(trace, options);
+  }
+};
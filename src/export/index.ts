@@ -0,0 +1,2 @@
+export { exportJson, exportMarkdown, exportMermaid, exportText, exportTrace } from './formats';
+export type { ExportFormat, ExportOptions, ExportedTrace } from './formats';
@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AddressLabels } from '../parser';
+
+const STORAGE_KEY = 'foundry-trace-viewer:address-book';
+
+const loadStoredLabels = (): AddressLabels => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Labels for addresses in the trace. Labels harvested from the current trace
+// are combined with ones the user imported or typed in, which are persisted
+// in localStorage and take precedence. An empty user label hides the
+// harvested one.
+export const useAddressBook = (harvested: AddressLabels) => {
+  const [userLabels, setUserLabels] = useState<AddressLabels>(loadStoredLabels);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(userLabels));
+  }, [userLabels]);
+
+  const labels = useMemo(
+    () => Object.fromEntries(Object.entries({ ...harvested, ...userLabels }).filter(([, label]) => label !== '')),
+    [harvested, userLabels]
+  );
+
+  // Set (or with an empty label, remove) the label for an address. Removing
+  // a label taken from the trace keeps an empty one so it stays hidden.
+  const setLabel = (address: string, label: string) => {
+    const key = address.toLowerCase();
+    setUserLabels(prev => {
+      const next = { ...prev };
+      if (label.trim()) next[key] = label.trim();
+      else if (key in harvested) next[key] = '';
+      else delete next[key];
+      return next;
+    });
+  };
+
+  const importLabels = (imported: AddressLabels) => {
+    setUserLabels(prev => ({ ...prev, ...imported }));
+  };
+
+  const clearLabels = () => setUserLabels({});
+
+  const getLabel = (address: string): string | null => labels[address.toLowerCase()] ?? null;
+
+  return { labels, userLabels, harvested, getLabel, setLabel, importLabels, clearLabels };
+};
+
+export type AddressBook = ReturnType<typeof useAddressBook>;
@@ -0,0 +1,27 @@
+import { useMemo, useState } from 'react';
+import { ForgeOutput, TestResult, TestSuite, Trace, diffTraces, findMatchingTest, parseInWorker } from '../parser';
+
+// A second trace to compare the loaded one against, diffed with the traces
+// on screen: the same test's when one is selected, everything otherwise
+export const useComparison = (visibleTraces: Trace[], selectedTest: TestResult | null, testSuites: TestSuite[]) => {
+  const [comparison, setComparison] = useState<{ name: string; output: ForgeOutput } | null>(null);
+
+  // The loaded trace (before) against the comparison (after)
+  const traceDiff = useMemo(() => {
+    if (!comparison) return [];
+    const comparisonTraces = selectedTest
+      ? findMatchingTest(selectedTest, testSuites, comparison.output.suites)?.traces ?? []
+      : comparison.output.traces;
+    return diffTraces(visibleTraces, comparisonTraces);
+  }, [comparison, selectedTest, testSuites, visibleTraces]);
+
+  // Parse a file to compare against; rejects when it can't be parsed
+  const loadComparison = async (file: File, onProgress: (progress: number) => void) => {
+    const output = await parseInWorker(await file.text(), onProgress, 'comparison');
+    setComparison({ name: file.name, output });
+  };
+
+  const clearComparison = () => setComparison(null);
+
+  return { comparison, traceDiff, loadComparison, clearComparison };
+};
@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+
+export type KeyBindings = Record<string, () => void>;
+
+// Elements where keys are text input rather than shortcuts
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Focused controls that act on Enter and Space themselves (buttons, links, ...)
+const INTERACTIVE_SELECTOR = 'button, a[href], summary, [role="button"], [role="link"], [role="menuitem"], [role="tab"]';
+const ACTIVATION_KEYS = ['Enter', ' '];
+const isActivatingControl = (event: KeyboardEvent) =>
+  ACTIVATION_KEYS.includes(event.key)
+  && event.target instanceof Element && event.target.closest(INTERACTIVE_SELECTOR) !== null;
+
+// Run single-key shortcuts (by `KeyboardEvent.key`) anywhere on the page,
+// except while the user is typing or holding a modifier other than Shift.
+// Enter and Space on a focused button or link are left to the control.
+export const useKeyboardShortcuts = (bindings: KeyBindings) => {
+  // Always call the latest handlers without re-registering on every render
+  const bindingsRef = useRef(bindings);
+  useEffect(() => {
+    bindingsRef.current = bindings;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTyping(event.target) || isActivatingControl(event)) return;
+      const handler = bindingsRef.current[event.key];
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+
+// Message pushed by the companion CLI (bin/foundry-trace-viewer.js)
+interface LiveTraceMessage {
+  type: 'trace';
+  name: string;
+  text: string;
+}
+
+// How long to wait before reconnecting after the CLI goes away
+const RECONNECT_DELAY = 2000;
+
+// Receive traces from the companion CLI when the app is served by it.
+// The dev server has no such endpoint, so this only runs in production builds.
+export const useLiveTrace = (onTrace: (text: string, name: string) => void) => {
+  // Always call the latest callback without reconnecting on every render
+  const onTraceRef = useRef(onTrace);
+  useEffect(() => {
+    onTraceRef.current = onTrace;
+  });
+
+  useEffect(() => {
+    if (!import.meta.env.PROD) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let connected = false;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        connected = true;
+      };
+
+      socket.onmessage = event => {
+        const message: LiveTraceMessage = JSON.parse(event.data);
+        if (message.type === 'trace') {
+          onTraceRef.current(message.text, message.name);
+        }
+      };
+
+      // Only retry once we know a CLI served us; static hosting has no socket
+      socket.onclose = () => {
+        if (connected && !closed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, []);
+};
@@ -0,0 +1,71 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Bookmark,
+  SessionFile,
+  SessionState,
+  createSessionFile,
+  forgetSession as forgetSavedSession,
+  saveSession
+} from '../session';
+
+// What the viewer shows of the loaded trace, apart from the bookmarks
+export type SessionView = Pick<SessionState, 'expandedIds' | 'historyIds' | 'historyIndex' | 'pinnedIds' | 'searchTerm' | 'selectedTestId'>;
+
+// The session of the loaded trace: its bookmarks, and the view saved in
+// IndexedDB shortly after it changes. `view` should be memoized, or every
+// render schedules a save.
+export const useSession = (sourceName: string | null, view: SessionView) => {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  // Hash of the loaded text, keying its saved session
+  const [sessionHash, setSessionHash] = useState<string | null>(null);
+  const traceTextRef = useRef('');
+
+  // The view of the loaded trace as it would be saved
+  const currentSession = useMemo(
+    (): Omit<SessionState, 'updatedAt'> | null => (sessionHash && sourceName
+      ? { hash: sessionHash, name: sourceName, ...view, bookmarks }
+      : null),
+    [sessionHash, sourceName, view, bookmarks]
+  );
+
+  // Save it shortly after it changes
+  useEffect(() => {
+    if (!currentSession) return;
+    const timer = setTimeout(() => {
+      saveSession({ ...currentSession, updatedAt: Date.now() })
+        .catch(error => console.error("Error saving session:", error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [currentSession]);
+
+  // Switch to the session of newly parsed text
+  const startSession = (text: string, hash: string) => {
+    traceTextRef.current = text;
+    setSessionHash(hash);
+  };
+
+  // The loaded trace and its current view, for sharing
+  const getSessionFile = (): SessionFile | null => currentSession && sourceName
+    ? createSessionFile(sourceName, traceTextRef.current, { ...currentSession, updatedAt: Date.now() })
+    : null;
+
+  // Drop the saved session of the loaded trace, leaving the current view as is
+  const forgetSession = () => {
+    if (!sessionHash) return;
+    // The store skips saving it again until another trace is loaded
+    forgetSavedSession(sessionHash).catch(error => console.error("Error deleting session:", error));
+    setBookmarks([]);
+  };
+
+  const toggleBookmark = (traceId: string) => {
+    setBookmarks(prev => (prev.some(bookmark => bookmark.traceId === traceId)
+      ? prev.filter(bookmark => bookmark.traceId !== traceId)
+      : [...prev, { traceId, note: '', createdAt: Date.now() }]));
+  };
+
+  const changeBookmarkNote = (traceId: string, note: string) => {
+    setBookmarks(prev => prev.map(bookmark => (bookmark.traceId === traceId ? { ...bookmark, note } : bookmark)));
+  };
+
+  return { bookmarks, setBookmarks, startSession, getSessionFile, forgetSession, toggleBookmark, changeBookmarkNote };
+};
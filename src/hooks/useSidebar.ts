@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Trace } from '../parser';
+
+interface SidebarHistory {
+  frames: Trace[];
+  index: number;
+}
+
+const emptySidebarHistory: SidebarHistory = { frames: [], index: -1 };
+const MAX_SIDEBAR_HISTORY = 100;
+// Each pin adds a sidebar column
+export const MAX_PINNED_FRAMES = 3;
+
+// The frame whose children the sidebar lists, with a browser-like history of
+// the frames it showed before, and the frames pinned next to it
+export const useSidebar = () => {
+  // Frames the sidebar showed, oldest first, and the one it shows now
+  const [sidebarHistory, setSidebarHistory] = useState<SidebarHistory>(emptySidebarHistory);
+  // Frames kept open next to the sidebar for comparison
+  const [pinnedFrames, setPinnedFrames] = useState<Trace[]>([]);
+
+  const sidebarFrame = sidebarHistory.frames[sidebarHistory.index] ?? null;
+
+  // Show a frame's children in the sidebar. A new frame drops the forward
+  // history like a browser does; `replace` swaps the current entry instead.
+  const showInSidebar = (trace: Trace, replace = false) => {
+    setSidebarHistory(prev => {
+      if (prev.frames[prev.index]?.id === trace.id) return prev;
+      const frames = [...prev.frames.slice(0, replace ? Math.max(prev.index, 0) : prev.index + 1), trace].slice(-MAX_SIDEBAR_HISTORY);
+      return { frames, index: frames.length - 1 };
+    });
+  };
+
+  const stepSidebarHistory = (step: 1 | -1) => {
+    setSidebarHistory(prev => {
+      const index = prev.index + step;
+      return index >= 0 && index < prev.frames.length ? { ...prev, index } : prev;
+    });
+  };
+
+  // Empty the sidebar, keeping the pins
+  const clearSidebarHistory = () => setSidebarHistory(emptySidebarHistory);
+
+  const togglePin = (trace: Trace) => {
+    setPinnedFrames(prev => (prev.some(pinned => pinned.id === trace.id)
+      ? prev.filter(pinned => pinned.id !== trace.id)
+      : [...prev, trace].slice(-MAX_PINNED_FRAMES)));
+  };
+
+  // Move a pinned column to another frame
+  const replacePin = (pinned: Trace, trace: Trace) => {
+    setPinnedFrames(prev => (prev.some(frame => frame.id === trace.id)
+      ? prev.filter(frame => frame.id !== pinned.id)
+      : prev.map(frame => (frame.id === pinned.id ? trace : frame))));
+  };
+
+  // Start over for a new trace
+  const resetSidebar = () => {
+    setSidebarHistory(emptySidebarHistory);
+    setPinnedFrames([]);
+  };
+
+  // Move the history and the pins to the nodes of a re-parsed trace.
+  // Frames gone from the new text drop out.
+  const carryOverSidebar = (carryOver: (trace: Trace) => Trace | null) => {
+    setSidebarHistory(prev => {
+      const kept = prev.frames.map(carryOver);
+      return {
+        frames: kept.filter((trace): trace is Trace => trace !== null),
+        index: kept.slice(0, prev.index + 1).filter(trace => trace !== null).length - 1,
+      };
+    });
+    setPinnedFrames(prev => prev.map(carryOver).filter((trace): trace is Trace => trace !== null));
+  };
+
+  // Bring back a saved history and pins
+  const restoreSidebar = (frames: Trace[], index: number, pins: Trace[]) => {
+    setSidebarHistory({ frames, index: Math.min(index, frames.length - 1) });
+    setPinnedFrames(pins);
+  };
+
+  return {
+    sidebarHistory,
+    sidebarFrame,
+    pinnedFrames,
+    showInSidebar,
+    stepSidebarHistory,
+    clearSidebarHistory,
+    togglePin,
+    replacePin,
+    resetSidebar,
+    carryOverSidebar,
+    restoreSidebar,
+  };
+};
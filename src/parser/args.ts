@@ -0,0 +1,78 @@
+import { TraceArg } from './types';
+
+// Split an argument list by commas, but only at the top level
+// (not inside nested parentheses, brackets, braces or string literals)
+export const splitArgs = (argsStr: string): string[] => {
+  const result: string[] = [];
+  let currentArg = '';
+  let parenDepth = 0;
+  let inString = false;
+
+  for (let i = 0; i < argsStr.length; i++) {
+    const char = argsStr[i];
+    if (inString) {
+      currentArg += char;
+      if (char === '\\' && i + 1 < argsStr.length) {
+        currentArg += argsStr[++i];
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      currentArg += char;
+    } else if (char === '(' || char === '[' || char === '{') {
+      parenDepth++;
+      currentArg += char;
+    } else if (char === ')' || char === ']' || char === '}') {
+      parenDepth--;
+      currentArg += char;
+    } else if (char === ',' && parenDepth === 0) {
+      result.push(currentArg.trim());
+      currentArg = '';
+    } else {
+      currentArg += char;
+    }
+  }
+
+  if (currentArg.trim()) {
+    result.push(currentArg.trim());
+  }
+
+  return result;
+};
+
+// Split an argument list and separate `name: value` pairs (as forge prints
+// for events and named return values) from positional arguments
+export const parseArgs = (argsStr: string): TraceArg[] => {
+  return splitArgs(argsStr).map(arg => {
+    const namedMatch = arg.match(/^([A-Za-z_$][A-Za-z0-9_$]*):\s(.*)$/s);
+    if (namedMatch) {
+      return { name: namedMatch[1], value: namedMatch[2] };
+    }
+    return { name: null, value: arg };
+  });
+};
+
+// Find the index of the bracket closing the one at `start`, skipping over
+// nested brackets and string literals. Returns -1 when it is unbalanced.
+export const findClosingBracket = (str: string, start: number): number => {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < str.length; i++) {
+    const char = str[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+};
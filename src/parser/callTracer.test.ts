@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import transactionJson from './fixtures/calltracer-tx.json?raw';
+import blockJson from './fixtures/calltracer-block.json?raw';
+import { findCallTracerTransactions, parseCallTracer } from './callTracer';
+
+const TOKEN = '0xe7f1725e7734ce288f8367e1bb143e90bb3f0512';
+const PAIR = '0x9bd03768a7dcc129555de410ff8e85528a4f88b5';
+
+describe('findCallTracerTransactions', () => {
+  it('finds frames in RPC responses, bare frames and block traces', () => {
+    const response = JSON.parse(transactionJson);
+
+    expect(findCallTracerTransactions(response)).toEqual([{ hash: null, frame: response.result }]);
+    expect(findCallTracerTransactions(response.result)).toEqual([{ hash: null, frame: response.result }]);
+    expect(findCallTracerTransactions(JSON.parse(blockJson))?.map(transaction => transaction.hash)).toEqual([
+      '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060',
+      '0xa1ee1b8ac5a8f4b3b5c8e3e0ea54ea2b0e9b1d1c9c6a2c0e1ad4f3b8e3a1e6f0',
+    ]);
+  });
+
+  it('rejects other JSON', () => {
+    expect(findCallTracerTransactions({ jsonrpc: '2.0', result: '0x1' })).toBeNull();
+    expect(findCallTracerTransactions([])).toBeNull();
+    expect(findCallTracerTransactions([{ type: 'CALL', from: '0x1' }, { txHash: '0x2' }])).toBeNull();
+  });
+});
+
+describe('parseCallTracer', () => {
+  it('builds the nested call tree with gas, value and call types', () => {
+    const output = parseCallTracer(JSON.parse(transactionJson));
+    const [root] = output.traces;
+    const calls = root.children.filter(child => child.kind === 'call');
+
+    expect(output.traces).toHaveLength(1);
+    expect(root).toMatchObject({
+      gas: 311714,
+      address: '0x5fbdb2315678afecb367f032d93f642f64180aa3',
+      functionName: '4ba6b8e5',
+      value: '1000000000000000000',
+      status: 'return',
+    });
+    expect(calls.map(call => [call.address, call.functionName, call.callType])).toEqual([
+      [TOKEN, '70a08231', 'staticcall'],
+      [PAIR, 'new', 'create2'],
+      [TOKEN, 'a9059cbb', 'call'],
+      [PAIR, '8129fc1c', 'call'],
+    ]);
+    expect(calls[0].returnData).toBe('0x00000000000000000000000000000000000000000000000000000000000003e8');
+  });
+
+  it('places logs between the calls by their position', () => {
+    const [root] = parseCallTracer(JSON.parse(transactionJson)).traces;
+    const transfer = root.children[3];
+
+    expect(root.children.map(child => child.kind)).toEqual(['call', 'event', 'call', 'call', 'call', 'event']);
+    expect(root.events[0].content).toMatch(/^emit topic 0: 0x6b2d5c9e/);
+    expect(root.events[1].content).toMatch(/^emit topic 0: 0x3c2f3d5d/);
+    expect(transfer.events).toHaveLength(1);
+    expect(transfer.events[0].content.split('\n')).toEqual([
+      'emit topic 0: 0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+      'topic 1: 0x0000000000000000000000005fbdb2315678afecb367f032d93f642f64180aa3',
+      'topic 2: 0x0000000000000000000000009bd03768a7dcc129555de410ff8e85528a4f88b5',
+      'data: 0x0000000000000000000000000000000000000000000000000000000000000064',
+    ]);
+  });
+
+  it('marks CREATE2 frames and reports the deployed code size', () => {
+    const [root] = parseCallTracer(JSON.parse(transactionJson)).traces;
+
+    expect(root.children[2]).toMatchObject({
+      contractName: null,
+      address: PAIR,
+      callType: 'create2',
+      value: null,
+      returnData: '18 bytes of code',
+    });
+  });
+
+  it('keeps the revert reason of reverted frames', () => {
+    const output = parseCallTracer(JSON.parse(transactionJson));
+    const initialize = output.traces[0].children[4];
+
+    expect(initialize).toMatchObject({ status: 'revert', revertReason: 'already initialized' });
+    // The revert was caught, so the transaction itself passed
+    expect(output.suites[0].tests).toMatchObject([{ name: 'transaction', status: 'pass', gas: 311714, reason: null }]);
+  });
+
+  it('turns every transaction of a block trace into a test', () => {
+    const output = parseCallTracer(JSON.parse(blockJson));
+    const [transfer, outOfGas] = output.suites[0].tests;
+
+    expect(output.traces).toHaveLength(2);
+    expect(transfer).toMatchObject({ status: 'pass', gas: 21000, reason: null });
+    expect(transfer.traces[0]).toMatchObject({ functionName: 'fallback', value: '100000000000000000', status: 'stop' });
+    expect(outOfGas).toMatchObject({ status: 'fail', gas: 30000, reason: 'out of gas' });
+    expect(outOfGas.traces[0].status).toBe('outOfGas');
+    expect(outOfGas.traces[0].children[0]).toMatchObject({ functionName: 'a9059cbb', status: 'outOfGas' });
+    expect(transfer.id).not.toBe(outOfGas.id);
+  });
+
+  it('throws on JSON that is not a callTracer result', () => {
+    expect(() => parseCallTracer({ foo: 1 })).toThrow(/Not a callTracer trace/);
+  });
+});
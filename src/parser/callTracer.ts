@@ -0,0 +1,174 @@
+import { ForgeOutput, TestResult } from './forgeOutput';
+import { parseTraceLines } from './traceParser';
+
+// A frame as the `callTracer` of geth and anvil returns it from
+// `debug_traceTransaction`; `withLog: true` adds the logs
+export interface CallTracerFrame {
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  gas?: string;
+  gasUsed?: string;
+  input?: string;
+  output?: string;
+  error?: string;
+  revertReason?: string;
+  calls?: CallTracerFrame[];
+  logs?: CallTracerLog[];
+}
+
+export interface CallTracerLog {
+  address: string;
+  topics?: string[];
+  data?: string;
+  // Number of calls the frame had made when the log was emitted
+  position?: string | number;
+}
+
+export interface CallTracerTransaction {
+  hash: string | null;
+  frame: CallTracerFrame;
+}
+
+const isFrame = (value: unknown): value is CallTracerFrame =>
+  !!value && typeof value === 'object' && typeof (value as CallTracerFrame).type === 'string'
+  && typeof (value as CallTracerFrame).from === 'string';
+
+// The transactions in a callTracer result: a bare frame, a JSON-RPC response
+// around one, or the `[{ txHash, result }]` list of `debug_traceBlock*`.
+// Null when the JSON is none of these.
+export const findCallTracerTransactions = (json: unknown): CallTracerTransaction[] | null => {
+  if (isFrame(json)) return [{ hash: null, frame: json }];
+  if (Array.isArray(json)) {
+    const transactions = json.map(entry => {
+      if (isFrame(entry)) return { hash: null, frame: entry };
+      const { txHash, result } = (entry ?? {}) as { txHash?: unknown; result?: unknown };
+      return isFrame(result) ? { hash: typeof txHash === 'string' ? txHash : null, frame: result } : null;
+    });
+    return transactions.length > 0 && transactions.every(transaction => transaction !== null)
+      ? transactions as CallTracerTransaction[]
+      : null;
+  }
+  if (json && typeof json === 'object' && 'result' in json) {
+    return findCallTracerTransactions((json as { result: unknown }).result);
+  }
+  return null;
+};
+
+// Quantities are hex strings in geth, but some clients return numbers
+const toBigInt = (quantity: string | number | undefined) => {
+  try {
+    return quantity === undefined ? 0n : BigInt(quantity);
+  } catch {
+    return 0n;
+  }
+};
+
+const CALL_TYPE_TAGS: Record<string, string> = {
+  STATICCALL: ' [staticcall]',
+  DELEGATECALL: ' [delegatecall]',
+  CALLCODE: ' [callcode]',
+};
+
+// The frame as forge would print it. Undecoded calldata is shown the way forge
+// shows unknown selectors (`0x..::a9059cbb(00..)`) so ABIs can decode it later.
+const describeFrame = (frame: CallTracerFrame) => {
+  const gas = toBigInt(frame.gasUsed);
+  const value = toBigInt(frame.value);
+  const to = frame.to ?? '0x';
+
+  switch (frame.type.toUpperCase()) {
+    case 'CREATE':
+      return `[${gas}] → new <unknown>@${to}`;
+    case 'CREATE2':
+      return `[${gas}] → new <unknown>@${to} [create2]`;
+    case 'SELFDESTRUCT':
+      return `selfdestruct(${to})${value > 0n ? `{value: ${value}}` : ''}`;
+  }
+
+  const input = (frame.input ?? '0x').replace(/^0x/, '');
+  const selector = input.length >= 8 ? input.substring(0, 8) : 'fallback';
+  const args = input.length >= 8 ? input.substring(8) : input && `0x${input}`;
+  const valueBlock = value > 0n ? `{value: ${value}}` : '';
+  return `[${gas}] ${to}::${selector}${valueBlock}(${args})${CALL_TYPE_TAGS[frame.type.toUpperCase()] ?? ''}`;
+};
+
+// The `← [Status] data` line that closes the frame
+const describeReturn = (frame: CallTracerFrame) => {
+  const output = frame.output && frame.output !== '0x' ? frame.output : '';
+  if (frame.error) {
+    if (/out of gas/i.test(frame.error)) return '← [OutOfGas] EvmError: OutOfGas';
+    if (/revert/i.test(frame.error)) return `← [Revert] ${frame.revertReason ?? (output || frame.error)}`;
+    return `← [Error] ${frame.error}`;
+  }
+  if (/^CREATE2?$/i.test(frame.type)) return `← [Return] ${output.replace(/^0x/, '').length / 2} bytes of code`;
+  return output ? `← [Return] ${output}` : '← [Stop]';
+};
+
+// Raw logs as forge prints logs it could not decode
+const describeLog = (log: CallTracerLog) => {
+  const topics = (log.topics ?? []).map((topic, index) => `${index === 0 ? 'emit ' : '     '}topic ${index}: ${topic}`);
+  const data = `${topics.length > 0 ? '        ' : 'emit '}data: ${log.data ?? '0x'}`;
+  return [...topics, data];
+};
+
+// Render the frames as a forge trace tree, so the text parser builds the
+// same Trace nodes as for forge output
+const renderTree = (frame: CallTracerFrame, lines: string[], prefix: string, childPrefix: string) => {
+  lines.push(`${prefix}${describeFrame(frame)}`);
+  if (/^SELFDESTRUCT$/i.test(frame.type)) return;
+
+  const calls = frame.calls ?? [];
+  const logs = (frame.logs ?? []).map(log => ({ log, position: Number(toBigInt(log.position)) }));
+  const entries: ((prefix: string, childPrefix: string) => void)[] = [];
+  const addLog = (log: CallTracerLog) => entries.push((entryPrefix, entryChildPrefix) => {
+    const [first, ...rest] = describeLog(log);
+    lines.push(`${entryPrefix}${first}`);
+    rest.forEach(line => lines.push(`${entryChildPrefix}${line}`));
+  });
+
+  // Logs go before the calls made after them
+  calls.forEach((call, index) => {
+    logs.filter(({ position }) => position === index).forEach(({ log }) => addLog(log));
+    entries.push((entryPrefix, entryChildPrefix) => renderTree(call, lines, entryPrefix, entryChildPrefix));
+  });
+  logs.filter(({ position }) => position >= calls.length).forEach(({ log }) => addLog(log));
+
+  entries.forEach(render => render(`${childPrefix}├─ `, `${childPrefix}│   `));
+  // The return line is always the last child, so logs never end a frame
+  lines.push(`${childPrefix}└─ ${describeReturn(frame)}`);
+};
+
+// Import the JSON of a callTracer (`debug_traceTransaction`, `debug_traceCall`
+// or a block trace). Every transaction becomes a test so they can be browsed
+// one at a time.
+export const parseCallTracer = (json: unknown): ForgeOutput => {
+  const transactions = findCallTracerTransactions(json);
+  if (!transactions) throw new Error('Not a callTracer trace: expected frames with `type`, `from` and `calls`');
+
+  const lines: string[] = [];
+  const starts: number[] = [];
+  transactions.forEach(({ frame }) => {
+    starts.push(lines.length);
+    renderTree(frame, lines, '', '');
+    lines.push('');
+  });
+
+  const traces = parseTraceLines(lines);
+  const tests: TestResult[] = transactions.map(({ hash, frame }, index) => ({
+    id: `test-${starts[index]}`,
+    name: hash ?? (transactions.length > 1 ? `transaction ${index}` : 'transaction'),
+    status: frame.error ? 'fail' : 'pass',
+    gas: Number(toBigInt(frame.gasUsed)),
+    reason: frame.error ? frame.revertReason ?? frame.error : null,
+    traces: [traces[index]],
+    line: starts[index],
+  }));
+
+  return {
+    suites: [{ id: 'suite-0', name: 'callTracer', tests, summary: null }],
+    traces,
+    summary: null,
+  };
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import failed from './fixtures/cast-run.txt?raw';
+import succeeded from './fixtures/cast-run-success.txt?raw';
+import { parseCastRun } from './castRun';
+
+describe('parseCastRun', () => {
+  it('shows a failed transaction as a failing test', () => {
+    const output = parseCastRun(failed);
+    const [suite] = output.suites;
+
+    expect(suite).toMatchObject({ name: 'cast run', summary: 'Transaction failed.' });
+    expect(suite.tests).toMatchObject([{ name: 'transaction', status: 'fail', gas: 51234, reason: 'revert: receiver paused', line: 9 }]);
+    expect(suite.tests[0].traces).toBe(output.traces);
+    expect(output.summary).toBe('Gas used: 51234');
+  });
+
+  it('parses the replayed trace like forge output', () => {
+    const [root] = parseCastRun(failed).traces;
+
+    expect(root).toMatchObject({ address: '0x5FbDB2315678afecb367f032d93F642f64180aa3', functionName: 'transfer', status: 'revert' });
+    expect(root.events.map(event => event.functionName)).toEqual(['Transfer']);
+    expect(root.children[1]).toMatchObject({ functionName: 'onTokenTransfer', status: 'revert', revertReason: 'revert: receiver paused' });
+  });
+
+  it('shows a successful transaction as a passing test', () => {
+    const output = parseCastRun(succeeded);
+    const [test] = output.suites[0].tests;
+
+    expect(test).toMatchObject({ status: 'pass', gas: 46101, reason: null });
+    expect(test.traces[0]).toMatchObject({ contractName: 'Token', functionName: 'approve', returnData: 'true' });
+    expect(test.traces[0].storageChanges).toHaveLength(1);
+  });
+});
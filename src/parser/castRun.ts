@@ -0,0 +1,37 @@
+import { ForgeOutput, parseForgeOutput } from './forgeOutput';
+import { normalizeTraceText } from './normalize';
+
+// Lines `cast run` prints around the trace of the replayed transaction
+const RESULT_PATTERN = /^Transaction (successfully executed|failed)\.$/m;
+const GAS_USED_PATTERN = /^Gas used: (\d+)$/m;
+export const CAST_RUN_PATTERN = /^(?:Executing previous transactions from the block\.|Transaction (?:successfully executed|failed)\.)$/m;
+
+// Import the output of `cast run <tx>`. The trace is printed like forge's,
+// so it is parsed the same way and shown as a single test with the
+// transaction's result and gas.
+export const parseCastRun = (text: string, onProgress?: (progress: number) => void): ForgeOutput => {
+  const output = parseForgeOutput(text, onProgress);
+  const plain = normalizeTraceText(text);
+  const result = plain.match(RESULT_PATTERN);
+  const gasUsed = plain.match(GAS_USED_PATTERN);
+  const failed = result?.[1] === 'failed';
+  const root = output.traces[output.traces.length - 1];
+  const line = result ? plain.substring(0, result.index).split('\n').length - 1 : 0;
+
+  output.suites = [{
+    id: 'suite-0',
+    name: 'cast run',
+    tests: [{
+      id: `test-${line}`,
+      name: 'transaction',
+      status: failed ? 'fail' : 'pass',
+      gas: gasUsed ? parseInt(gasUsed[1], 10) : root?.gas ?? null,
+      reason: failed ? root?.revertReason ?? 'Transaction failed' : null,
+      traces: output.traces,
+      line,
+    }],
+    summary: result ? result[0] : null,
+  }];
+  output.summary = gasUsed ? gasUsed[0] : null;
+  return output;
+};
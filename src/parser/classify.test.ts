@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import vault from './fixtures/vault-vvvv.txt?raw';
+import { getNoiseCategory, getVisibleChildren, NoiseCategory, walkVisibleTraces } from './classify';
+import { parseForgeOutput } from './forgeOutput';
+import { parseTraceLines } from './traceParser';
+import { Trace } from './types';
+
+const [root] = parseTraceLines([
+  '[10000] VaultTest::test_Swap()',
+  '  ├─ [0] VM::prank(0x1111111111111111111111111111111111111111)',
+  '  │   └─ ← [Return]',
+  '  ├─ [0] 0x7109709ECfa91a80626fF3989D68f67F5b1DD12D::warp(100)',
+  '  │   └─ ← [Return]',
+  '  ├─ [0] console::log("swapping") [staticcall]',
+  '  │   └─ ← [Stop]',
+  '  ├─ [0] 0x000000000000000000636F6e736F6c652e6c6f67::log("raw") [staticcall]',
+  '  │   └─ ← [Stop]',
+  '  ├─ [3000] PRECOMPILES::ecrecover(0xabcd, 27, 0x01, 0x02) [staticcall]',
+  '  │   └─ ← [Return] 0x1111111111111111111111111111111111111111',
+  '  ├─ [60] 0x0000000000000000000000000000000000000002::fallback(0x00) [staticcall]',
+  '  │   └─ ← [Return] 0x6e34',
+  '  ├─ [5000] Vault::swap()',
+  '  │   ├─ [500] Token::balanceOf(0x1111111111111111111111111111111111111111) [staticcall]',
+  '  │   │   ├─ [100] Token::fetch()',
+  '  │   │   │   └─ ← [Return] 1',
+  '  │   │   └─ ← [Return] 1',
+  '  │   ├─ emit Swapped(1)',
+  '  │   └─ ← [Stop]',
+  '  └─ ← [Stop]',
+]);
+
+const [prank, warp, log, rawLog, ecrecover, sha256, swap] = root.children;
+
+const visibleNames = (nodes: Trace[], hidden: NoiseCategory[]) =>
+  getVisibleChildren(nodes, new Set(hidden)).children.map(node => node.functionName);
+
+describe('getNoiseCategory', () => {
+  it('recognizes cheatcodes by name and by the cheatcode address', () => {
+    expect(getNoiseCategory(prank)).toBe('cheatcode');
+    expect(getNoiseCategory(warp)).toBe('cheatcode');
+  });
+
+  it('recognizes console.log by name and address, ahead of staticcall', () => {
+    expect(getNoiseCategory(log)).toBe('console');
+    expect(getNoiseCategory(rawLog)).toBe('console');
+  });
+
+  it('treats precompiles as ordinary static calls', () => {
+    expect(getNoiseCategory(ecrecover)).toBe('staticcall');
+    expect(getNoiseCategory(sha256)).toBe('staticcall');
+  });
+
+  it('classifies events, setUp and everything else', () => {
+    expect(getNoiseCategory(swap)).toBeNull();
+    expect(getNoiseCategory(swap.children[1])).toBe('event');
+    expect(getNoiseCategory(root)).toBeNull();
+
+    const setUp = parseForgeOutput(vault).suites[0].tests[1].traces[0];
+    expect(getNoiseCategory(setUp)).toBe('setUp');
+    // Only test roots count as setUp
+    expect(getNoiseCategory(parseTraceLines(['[1] A::b()', '  ├─ [1] B::setUp()'])[0].children[0])).toBeNull();
+  });
+});
+
+describe('getVisibleChildren', () => {
+  it('counts hidden nodes and moves their children up', () => {
+    const { children, hiddenCount } = getVisibleChildren(swap.children, new Set(['staticcall', 'event']));
+
+    expect(hiddenCount).toBe(2);
+    expect(children.map(node => node.functionName)).toEqual(['fetch']);
+  });
+
+  it('hides each category on its own', () => {
+    expect(visibleNames(root.children, ['cheatcode'])).toEqual(['log', 'log', 'ecrecover', 'fallback', 'swap']);
+    expect(visibleNames(root.children, ['console'])).toEqual(['prank', 'warp', 'ecrecover', 'fallback', 'swap']);
+    expect(visibleNames(root.children, ['staticcall'])).toEqual(['prank', 'warp', 'log', 'log', 'swap']);
+  });
+
+  it('drops a hidden setUp with everything it ran', () => {
+    const [setUp, test] = parseForgeOutput(vault).suites[0].tests[1].traces;
+    const { children, hiddenCount } = getVisibleChildren([setUp, test], new Set(['setUp']));
+
+    expect(children).toEqual([test]);
+    expect(hiddenCount).toBe(1);
+  });
+});
+
+describe('walkVisibleTraces', () => {
+  it('visits only the nodes left by the filters, in tree order', () => {
+    const visited: (string | null)[] = [];
+    walkVisibleTraces([root], new Set(['cheatcode', 'console', 'staticcall', 'event']), trace => visited.push(trace.functionName));
+
+    expect(visited).toEqual(['test_Swap', 'swap', 'fetch']);
+  });
+});
@@ -0,0 +1,62 @@
+import { Trace } from './types';
+
+// Kinds of nodes that usually add noise to test traces and can be hidden
+export type NoiseCategory = 'cheatcode' | 'console' | 'staticcall' | 'event' | 'setUp';
+
+// Well-known addresses forge uses for the cheatcode and console contracts
+const CHEATCODE_ADDRESS = '0x7109709ecfa91a80626ff3989d68f67f5b1dd12d';
+const CONSOLE_ADDRESS = '0x000000000000000000636f6e736f6c652e6c6f67';
+
+// The noise category of a node, if any. Cheatcodes and console.log are
+// staticcalls too, so the more specific categories win.
+export const getNoiseCategory = (trace: Trace): NoiseCategory | null => {
+  if (trace.kind === 'event') return 'event';
+  if (trace.kind !== 'call') return null;
+
+  const address = trace.address?.toLowerCase();
+  if (trace.contractName === 'VM' || address === CHEATCODE_ADDRESS) return 'cheatcode';
+  if (trace.contractName === 'console' || address === CONSOLE_ADDRESS) return 'console';
+  if (!trace.parent && trace.functionName === 'setUp') return 'setUp';
+  if (trace.callType === 'staticcall') return 'staticcall';
+  return null;
+};
+
+export interface VisibleChildren {
+  children: Trace[];
+  // How many nodes were left out directly at this level
+  hiddenCount: number;
+}
+
+// Filter a list of sibling nodes. A hidden node's children take its place so
+// calls made from inside it stay visible; only a hidden `setUp` drops its
+// whole subtree, since everything in it belongs to the setup.
+export const getVisibleChildren = (nodes: Trace[], hidden: Set<NoiseCategory>): VisibleChildren => {
+  const children: Trace[] = [];
+  let hiddenCount = 0;
+
+  const visit = (node: Trace) => {
+    const category = getNoiseCategory(node);
+    if (!category || !hidden.has(category)) {
+      children.push(node);
+      return;
+    }
+    hiddenCount++;
+    if (category !== 'setUp') node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+
+  return { children, hiddenCount };
+};
+
+// Like walkTraces, but only visiting nodes that pass the filters
+export const walkVisibleTraces = (traces: Trace[], hidden: Set<NoiseCategory>, visit: (trace: Trace) => void) => {
+  const stack = [...getVisibleChildren(traces, hidden).children].reverse();
+  while (stack.length > 0) {
+    const trace = stack.pop()!;
+    visit(trace);
+    const { children } = getVisibleChildren(trace.children, hidden);
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push(children[i]);
+    }
+  }
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import vault from './fixtures/vault-vvvv.txt?raw';
+import { collectDeployments, isCreation } from './deployments';
+import { parseForgeOutput } from './forgeOutput';
+import { parseTraceLines } from './traceParser';
+
+const traces = parseTraceLines([
+  '[500000] Factory::deployAll()',
+  '  ├─ [120000] → new Pair@0x1111111111111111111111111111111111111111',
+  '  │   └─ ← [Return] 1200 bytes of code',
+  '  ├─ [90000] → new <unknown>@0x2222222222222222222222222222222222222222 [create2]',
+  '  │   └─ ← [Return] 845 bytes of code',
+  '  ├─ [60000] FactoryImpl::deployClone() [delegatecall]',
+  '  │   ├─ [40000] → new Clone@0x3333333333333333333333333333333333333333 [create2]',
+  '  │   │   └─ ← [Return] 45 bytes of code',
+  '  │   └─ ← [Stop]',
+  '  ├─ [3000] → new Broken@0x4444444444444444444444444444444444444444',
+  '  │   └─ ← [Revert] EvmError: Revert',
+  '  └─ ← [Stop]',
+]);
+
+describe('collectDeployments', () => {
+  it('tells create from create2 creations', () => {
+    const deployments = collectDeployments(traces);
+
+    expect(deployments.map(({ name, trace }) => [name, trace.callType])).toEqual([
+      ['Pair', 'create'],
+      [null, 'create2'],
+      ['Clone', 'create2'],
+      ['Broken', 'create'],
+    ]);
+    expect(deployments.every(({ trace }) => isCreation(trace))).toBe(true);
+    expect(isCreation(traces[0])).toBe(false);
+  });
+
+  it('reads the code size from the return line', () => {
+    expect(collectDeployments(traces).map(({ codeSize, gas }) => [codeSize, gas])).toEqual([
+      [1200, 120000],
+      [845, 90000],
+      [45, 40000],
+      [null, 3000],
+    ]);
+  });
+
+  it('marks reverted creations as failed', () => {
+    const [pair, , , broken] = collectDeployments(traces);
+
+    expect(pair.failed).toBe(false);
+    expect(broken).toMatchObject({ failed: true, address: '0x4444444444444444444444444444444444444444' });
+  });
+
+  it('credits creations by delegatecalled code to the proxy', () => {
+    const [pair, , clone] = collectDeployments(traces);
+
+    expect(pair.deployer).toBe(traces[0]);
+    expect(clone.deployer).toBe(traces[0]);
+  });
+
+  it('finds creations in forge test output', () => {
+    const setUp = parseForgeOutput(vault).suites[0].tests[1].traces[0];
+
+    expect(collectDeployments([setUp])).toEqual([expect.objectContaining({
+      name: 'Vault',
+      address: '0x5615dEB798BB3E4dFa0139dFa1b3D433Cc23b72f',
+      deployer: setUp,
+      codeSize: 602,
+      gas: 142880,
+      failed: false,
+    })]);
+  });
+});
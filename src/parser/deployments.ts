@@ -0,0 +1,40 @@
+import { isFailure } from './reverts';
+import { getStorageOwner } from './storage';
+import { walkTraces } from './traverse';
+import { Trace } from './types';
+
+// A contract created in the trace
+export interface Deployment {
+  trace: Trace;
+  // Null when forge printed `<unknown>`
+  name: string | null;
+  address: string;
+  // Frame whose contract ran the create (through its proxy for delegatecalls);
+  // null for creations at the root, e.g. in scripts
+  deployer: Trace | null;
+  // From `← [Return] N bytes of code`; null when the creation failed
+  codeSize: number | null;
+  gas: number | null;
+  failed: boolean;
+}
+
+export const isCreation = (trace: Trace) => trace.callType === 'create' || trace.callType === 'create2';
+
+// Every creation in the traces, in order
+export const collectDeployments = (traces: Trace[]): Deployment[] => {
+  const deployments: Deployment[] = [];
+  walkTraces(traces, trace => {
+    if (!isCreation(trace) || !trace.address) return;
+    const codeSize = trace.returnData?.match(/^(\d+) bytes of code$/);
+    deployments.push({
+      trace,
+      name: trace.contractName,
+      address: trace.address,
+      deployer: trace.parent ? getStorageOwner(trace.parent) : null,
+      codeSize: codeSize ? parseInt(codeSize[1], 10) : null,
+      gas: trace.gas,
+      failed: isFailure(trace),
+    });
+  });
+  return deployments;
+};
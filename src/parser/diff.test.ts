@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { diffTraces, summarizeDiff } from './diff';
+import { parseTraceLines } from './traceParser';
+
+const before = parseTraceLines([
+  '[100] Vault::deposit()',
+  '  ├─ [20] Token::transferFrom(0x01, 0x02, 5)',
+  '  │   └─ ← [Return] true',
+  '  ├─ [10] Oracle::price()',
+  '  │   └─ ← [Return] 7',
+  '  ├─ [5] Vault::check()',
+  '  │   └─ ← [Stop]',
+  '  └─ ← [Stop]',
+]);
+
+const after = parseTraceLines([
+  '[90] Vault::deposit()',
+  '  ├─ [15] Token::transferFrom(0x01, 0x02, 5)',
+  '  │   └─ ← [Return] true',
+  '  ├─ [10] Oracle::price()',
+  '  │   └─ ← [Return] 8',
+  '  ├─ [3] Vault::log()',
+  '  │   └─ ← [Stop]',
+  '  └─ ← [Stop]',
+], 100);
+
+describe('diffTraces', () => {
+  it('pairs frames by contract and function in call order', () => {
+    const [root] = diffTraces(before, after);
+
+    expect(root.before?.functionName).toBe('deposit');
+    expect(root.after?.functionName).toBe('deposit');
+    expect(root.children.map(child => [child.before?.functionName ?? null, child.after?.functionName ?? null]))
+      .toEqual([['transferFrom', 'transferFrom'], ['price', 'price'], [null, 'log'], ['check', null]]);
+  });
+
+  it('marks inserted and removed frames', () => {
+    const [root] = diffTraces(before, after);
+    const added = root.children.find(child => child.status === 'added');
+    const removed = root.children.find(child => child.status === 'removed');
+
+    expect(added).toMatchObject({ before: null, gasDelta: null });
+    expect(added?.after?.functionName).toBe('log');
+    expect(removed).toMatchObject({ after: null, gasDelta: null });
+    expect(removed?.before?.functionName).toBe('check');
+    expect(root.identical).toBe(false);
+  });
+
+  it('reports gas changes as deltas without marking the frame changed', () => {
+    const [root] = diffTraces(before, after);
+    const [transfer] = root.children;
+
+    expect(root.gasDelta).toBe(-10);
+    expect(transfer).toMatchObject({ status: 'same', gasDelta: -5, identical: true });
+  });
+
+  it('marks frames whose return value changed', () => {
+    const [root] = diffTraces(before, after);
+    const price = root.children[1];
+
+    expect(price).toMatchObject({ status: 'changed', gasDelta: 0, identical: false });
+    expect(price.before?.returnData).toBe('7');
+    expect(price.after?.returnData).toBe('8');
+  });
+
+  it('finds nothing between a trace and itself', () => {
+    const [root] = diffTraces(before, before);
+
+    expect(root.identical).toBe(true);
+    expect(summarizeDiff([root])).toEqual({ added: 0, removed: 0, changed: 0, gasBefore: 100, gasAfter: 100 });
+  });
+});
+
+describe('summarizeDiff', () => {
+  it('counts the differences and totals root gas', () => {
+    expect(summarizeDiff(diffTraces(before, after))).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 1,
+      gasBefore: 100,
+      gasAfter: 90,
+    });
+  });
+});
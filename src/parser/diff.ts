@@ -0,0 +1,117 @@
+import { getIdentityLabel } from './identity';
+import { Trace } from './types';
+
+export type DiffStatus = 'same' | 'changed' | 'added' | 'removed';
+
+// One aligned node of two trace trees
+export interface TraceDiff {
+  id: string;
+  status: DiffStatus;
+  before: Trace | null;
+  after: Trace | null;
+  // after.gas - before.gas, when both frames report gas
+  gasDelta: number | null;
+  children: TraceDiff[];
+  // Nothing in this subtree was added, removed or changed (gas aside)
+  identical: boolean;
+}
+
+export interface TraceDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  gasBefore: number;
+  gasAfter: number;
+}
+
+// Beyond this many cells the LCS table gets too big; siblings are then
+// paired by label and occurrence instead
+const MAX_LCS_CELLS = 4_000_000;
+
+// What a frame says apart from its gas cost
+const describeFrame = (trace: Trace) =>
+  `${trace.content.replace(/^\[\d+\]\s*/, '')}\n${trace.returnContent ?? ''}\n${trace.status ?? ''}`;
+
+// Pair up two sibling lists by label, keeping call order (longest common subsequence)
+const alignSiblings = (before: Trace[], after: Trace[]): [Trace | null, Trace | null][] => {
+  const beforeLabels = before.map(getIdentityLabel);
+  const afterLabels = after.map(getIdentityLabel);
+  const pairs: [Trace | null, Trace | null][] = [];
+
+  if (before.length * after.length > MAX_LCS_CELLS) {
+    const unmatched = new Map<string, Trace[]>();
+    before.forEach((trace, i) => unmatched.set(beforeLabels[i], [...(unmatched.get(beforeLabels[i]) ?? []), trace]));
+    const matched = new Set<Trace>();
+    after.forEach((trace, i) => {
+      const match = unmatched.get(afterLabels[i])?.shift() ?? null;
+      if (match) matched.add(match);
+      pairs.push([match, trace]);
+    });
+    before.filter(trace => !matched.has(trace)).forEach(trace => pairs.push([trace, null]));
+    return pairs;
+  }
+
+  // lengths[i * width + j]: LCS length of before[i..] and after[j..]
+  const width = after.length + 1;
+  const lengths = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = beforeLabels[i] === afterLabels[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && beforeLabels[i] === afterLabels[j]) {
+      pairs.push([before[i++], after[j++]]);
+    } else if (j < after.length && (i === before.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+      pairs.push([null, after[j++]]);
+    } else {
+      pairs.push([before[i++], null]);
+    }
+  }
+  return pairs;
+};
+
+const diffPair = (before: Trace | null, after: Trace | null): TraceDiff => {
+  const children = alignSiblings(before?.children ?? [], after?.children ?? []).map(([b, a]) => diffPair(b, a));
+
+  let status: DiffStatus = 'same';
+  if (!before) status = 'added';
+  else if (!after) status = 'removed';
+  else if (describeFrame(before) !== describeFrame(after)) status = 'changed';
+
+  return {
+    id: `diff-${before?.id ?? 'none'}-${after?.id ?? 'none'}`,
+    status,
+    before,
+    after,
+    gasDelta: before?.gas != null && after?.gas != null ? after.gas - before.gas : null,
+    children,
+    identical: status === 'same' && children.every(child => child.identical),
+  };
+};
+
+// Align two trace trees structurally (by contract, function and call order)
+export const diffTraces = (before: Trace[], after: Trace[]): TraceDiff[] =>
+  alignSiblings(before, after).map(([b, a]) => diffPair(b, a));
+
+// Count the differences and total the gas of both sides
+export const summarizeDiff = (diffs: TraceDiff[]): TraceDiffSummary => {
+  const summary: TraceDiffSummary = { added: 0, removed: 0, changed: 0, gasBefore: 0, gasAfter: 0 };
+  diffs.forEach(diff => {
+    summary.gasBefore += diff.before?.gas ?? 0;
+    summary.gasAfter += diff.after?.gas ?? 0;
+  });
+
+  const stack = [...diffs];
+  while (stack.length > 0) {
+    const diff = stack.pop()!;
+    if (diff.status !== 'same') summary[diff.status]++;
+    stack.push(...diff.children);
+  }
+  return summary;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { collectEvents } from './events';
+import { parseTraceLines } from './traceParser';
+import { Trace } from './types';
+
+const getName = (trace: Trace) => trace.contractName ?? '?';
+
+const traces = parseTraceLines([
+  '[1000] Router::swap()',
+  '  ├─ emit SwapStarted(user: alice: [0x1111111111111111111111111111111111111111], path: [0x2222222222222222222222222222222222222222, 0x3333333333333333333333333333333333333333])',
+  '  ├─ [300] Proxy::transfer(0x2222222222222222222222222222222222222222, 5)',
+  '  │   ├─ [250] TokenImpl::transfer(0x2222222222222222222222222222222222222222, 5) [delegatecall]',
+  '  │   │   ├─ emit Transfer(from: 0x1111111111111111111111111111111111111111, to: 0x2222222222222222222222222222222222222222, value: 5)',
+  '  │   │   └─ ← [Return] true',
+  '  │   └─ ← [Return] true',
+  '  ├─ [200] Pool::sync()',
+  '  │   ├─ emit Sync(reserves: (100, 200), note: "a, b")',
+  '  │   └─ ← [Revert] Locked()',
+  '  ├─ [100] Pool::skim()',
+  '  │   ├─ emit topic 0: 0x3f9e4c5b1c6f0b7d5a1f3c0e8e0cbe7f1b0d3a6c2e7f4a9b8c1d2e3f4a5b6c7d',
+  '  │   │           data: 0x',
+  '  │   └─ ← [Stop]',
+  '  ├─ emit SwapFinished(42)',
+  '  └─ ← [Stop]',
+]);
+
+describe('collectEvents', () => {
+  it('lists events in the order they were emitted, numbered from 1', () => {
+    const events = collectEvents(traces, getName);
+
+    expect(events.map(({ index, contract, name }) => [index, contract, name])).toEqual([
+      [1, 'Router', 'SwapStarted'],
+      // Code run by delegatecall emits for the proxy
+      [2, 'Proxy', 'Transfer'],
+      [3, 'Pool', 'Sync'],
+      [4, 'Pool', null],
+      [5, 'Router', 'SwapFinished'],
+    ]);
+  });
+
+  it('splits parameters at the top level only and keeps their names', () => {
+    const [started, , sync, , finished] = collectEvents(traces, getName);
+
+    expect(started.args).toEqual([
+      { name: 'user', value: 'alice: [0x1111111111111111111111111111111111111111]' },
+      { name: 'path', value: '[0x2222222222222222222222222222222222222222, 0x3333333333333333333333333333333333333333]' },
+    ]);
+    expect(sync.args).toEqual([
+      { name: 'reserves', value: '(100, 200)' },
+      { name: 'note', value: '"a, b"' },
+    ]);
+    expect(finished.args).toEqual([{ name: null, value: '42' }]);
+  });
+
+  it('marks events rolled back by a revert', () => {
+    const events = collectEvents(traces, getName);
+
+    expect(events.map(event => event.reverted)).toEqual([false, false, true, false, false]);
+  });
+
+  it('decodes raw logs through the given decoder', () => {
+    const events = collectEvents(traces, getName, trace => trace.content.includes('0x3f9e4c5b')
+      ? { name: 'Skimmed', args: [{ name: 'amount', value: '7' }] }
+      : undefined);
+    const raw = events[3];
+
+    expect(raw).toMatchObject({ name: 'Skimmed', args: [{ name: 'amount', value: '7' }] });
+    // Decoded events are left as forge printed them
+    expect(events[0].name).toBe('SwapStarted');
+  });
+});
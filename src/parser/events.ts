@@ -0,0 +1,47 @@
+import { isFailure } from './reverts';
+import { getStorageOwner } from './storage';
+import { walkTraces } from './traverse';
+import { Trace, TraceArg } from './types';
+
+// One `emit` in execution order
+export interface TimelineEvent {
+  trace: Trace;
+  // Position among all events, from 1
+  index: number;
+  // The emitter: for code run by delegatecall, the contract it ran for
+  contract: string;
+  // Null for raw logs nothing could decode
+  name: string | null;
+  args: TraceArg[];
+  // Emitted in a frame that reverted, so rolled back
+  reverted: boolean;
+}
+
+// Every event in the traces in the order it was emitted. `decode` supplies
+// names and arguments for raw logs (e.g. from artifacts).
+export const collectEvents = (
+  traces: Trace[],
+  getTargetName: (trace: Trace) => string,
+  decode?: (trace: Trace) => { name: string | null; args: TraceArg[] | null } | undefined
+): TimelineEvent[] => {
+  const events: TimelineEvent[] = [];
+  const revertedFrames = new Set<Trace>();
+
+  walkTraces(traces, trace => {
+    const reverted = isFailure(trace) || (!!trace.parent && revertedFrames.has(trace.parent));
+    if (reverted) revertedFrames.add(trace);
+    if (trace.kind !== 'event') return;
+
+    const decoded = trace.functionName ? undefined : decode?.(trace);
+    events.push({
+      trace,
+      index: events.length + 1,
+      contract: getTargetName(trace.parent ? getStorageOwner(trace.parent) : trace),
+      name: trace.functionName ?? decoded?.name ?? null,
+      args: trace.functionName ? trace.args : decoded?.args ?? [],
+      reverted,
+    });
+  });
+
+  return events;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import vault from './fixtures/vault-vvvv.txt?raw';
+import counter from './fixtures/counter-vvvvv.txt?raw';
+import { parseForgeOutput } from './forgeOutput';
+
+describe('parseForgeOutput', () => {
+  it('groups test results by suite', () => {
+    const output = parseForgeOutput(vault);
+    const [suite] = output.suites;
+
+    expect(output.suites).toHaveLength(1);
+    expect(suite.name).toBe('test/Vault.t.sol:VaultTest');
+    expect(suite.summary).toMatch(/^Suite result: FAILED\. 2 passed; 1 failed/);
+    expect(output.summary).toMatch(/^Ran 1 test suite in/);
+    // The `Failing tests:` recap repeats a header but is not a new test
+    expect(suite.tests.map(test => [test.name, test.status, test.gas, test.reason])).toEqual([
+      ['testFuzz_Deposit(uint96)', 'pass', 52311, null],
+      ['test_Deposit()', 'pass', 71234, null],
+      ['test_RevertWhen_WithdrawTooMuch()', 'fail', 13456, 'Insufficient()'],
+    ]);
+  });
+
+  it('attaches every trace section to its test', () => {
+    const output = parseForgeOutput(vault);
+    const [fuzz, deposit, withdraw] = output.suites[0].tests;
+
+    expect(fuzz.traces).toEqual([]);
+    expect(deposit.traces.map(trace => trace.functionName)).toEqual(['setUp', 'test_Deposit']);
+    expect(withdraw.traces.map(trace => trace.functionName)).toEqual(['setUp', 'test_RevertWhen_WithdrawTooMuch']);
+    expect(output.traces).toHaveLength(4);
+    // Node IDs are line numbers in the whole file, so they never collide
+    expect(new Set(output.traces.map(trace => trace.id)).size).toBe(4);
+    expect(deposit.traces[1].line).toBe(20);
+  });
+
+  it('reads failure reasons and statuses at -vvvvv', () => {
+    const [increment, loop] = parseForgeOutput(counter).suites[0].tests;
+
+    expect(increment.traces[0].status).toBe('stop');
+    expect(loop).toMatchObject({ status: 'fail', reason: 'EvmError: OutOfGas', gas: 1073720760 });
+    expect(loop.traces[0].status).toBe('revert');
+  });
+
+  it('treats input without a Traces: header as one bare trace tree', () => {
+    const bare = vault.split('\n').slice(20, 30).join('\n');
+    const output = parseForgeOutput(bare);
+
+    expect(output.suites).toEqual([]);
+    expect(output.traces).toHaveLength(1);
+    expect(output.traces[0].functionName).toBe('test_Deposit');
+    expect(output.traces[0].children).toHaveLength(4);
+  });
+
+  it('strips color codes and CRLF line endings', () => {
+    const colored = vault.replace(/Vault::/g, '\u001b[32mVault\u001b[0m::').replace(/\n/g, '\r\n');
+    const deposit = parseForgeOutput(colored).suites[0].tests[1].traces[1];
+
+    expect(deposit.children[1].contractName).toBe('Vault');
+    expect(deposit.returnContent).toBe('← [Stop]');
+  });
+});
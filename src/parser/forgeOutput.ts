@@ -0,0 +1,168 @@
+import { normalizeTraceText } from './normalize';
+import { parseTraceLines } from './traceParser';
+import { Trace } from './types';
+
+export type TestStatus = 'pass' | 'fail' | 'skip';
+
+// A `[PASS] testSwap() (gas: 123)` result and the traces printed under it
+export interface TestResult {
+  id: string;
+  name: string;
+  status: TestStatus;
+  // `gas:` for unit tests, the mean (`μ:`) for fuzz runs
+  gas: number | null;
+  // Text inside `[FAIL: ...]`, if forge printed one
+  reason: string | null;
+  traces: Trace[];
+  line: number;
+}
+
+// A `Ran 12 tests for test/Pair.t.sol:PairTest` block
+export interface TestSuite {
+  id: string;
+  // `test/Pair.t.sol:PairTest`
+  name: string;
+  tests: TestResult[];
+  // The `Suite result: ...` line, once seen
+  summary: string | null;
+}
+
+export interface ForgeOutput {
+  suites: TestSuite[];
+  // Every trace tree in the file, in order, including ones outside any test
+  traces: Trace[];
+  // The final `Ran N test suites ...` line
+  summary: string | null;
+}
+
+const TRACES_HEADER = /^\s*Traces:\s*$/;
+
+// `[FAIL: reason] name(args) (gas: 1)`. The reason is matched greedily so
+// brackets inside it (e.g. `[1, 2] != [3]`) don't end it early.
+const TEST_HEADER = /^\[(PASS|FAIL|SKIP)(.*)\]\s+([A-Za-z0-9_$]+\([^)]*\))(?:\s+\((.*)\))?\s*$/;
+
+const parseTestGas = (stats: string | undefined): number | null => {
+  const gasMatch = stats?.match(/(?:gas|μ):\s*(\d+)/);
+  return gasMatch ? parseInt(gasMatch[1], 10) : null;
+};
+
+const parseTestHeader = (line: string, index: number): TestResult | null => {
+  const headerMatch = line.match(TEST_HEADER);
+  if (!headerMatch) return null;
+
+  const [, status, rawReason, name, stats] = headerMatch;
+  // `[FAIL: reason]` on current forge, `[FAIL. Reason: reason]` on older versions
+  const reason = rawReason.replace(/^(?::|\.\s*Reason:)\s*/, '').trim();
+
+  return {
+    id: `test-${index}`,
+    name,
+    status: status.toLowerCase() as TestStatus,
+    gas: parseTestGas(stats),
+    reason: reason || null,
+    traces: [],
+    line: index,
+  };
+};
+
+// How many lines to parse between progress reports
+const PROGRESS_INTERVAL = 5000;
+
+// Parse the full output of `forge test -vvvv`: test results grouped by
+// suite, plus every `Traces:` section attached to the test it belongs to.
+// Input without any `Traces:` header is treated as a single bare trace tree.
+// Terminal color codes and CRLF line endings are stripped first.
+// `onProgress` is called with the fraction of lines processed so far.
+export const parseForgeOutput = (text: string, onProgress?: (progress: number) => void): ForgeOutput => {
+  const lines = normalizeTraceText(text).split('\n');
+  const output: ForgeOutput = { suites: [], traces: [], summary: null };
+
+  if (!lines.some(line => TRACES_HEADER.test(line))) {
+    output.traces = parseTraceLines(lines);
+    return output;
+  }
+
+  let currentSuite: TestSuite | null = null;
+  let currentTest: TestResult | null = null;
+  // Results repeated in the `Failing tests:` recap must not be added twice
+  let inRecap = false;
+
+  let sectionStart = -1;
+  const flush = (end: number) => {
+    if (sectionStart !== -1) {
+      const sectionTraces = parseTraceLines(lines.slice(sectionStart, end), sectionStart);
+      output.traces.push(...sectionTraces);
+      currentTest?.traces.push(...sectionTraces);
+    }
+    sectionStart = -1;
+  };
+
+  lines.forEach((line, index) => {
+    if (onProgress && index % PROGRESS_INTERVAL === 0) {
+      onProgress(index / lines.length);
+    }
+
+    if (TRACES_HEADER.test(line)) {
+      flush(index);
+      sectionStart = index + 1;
+      return;
+    }
+
+    // Trace trees are always indented; anything at column 0 (the next
+    // test result, the suite summary, ...) ends the section
+    if (!line.trim() || /^\s/.test(line)) return;
+    flush(index);
+
+    const suiteMatch = line.match(/^Ran \d+ tests? for (.+)$/);
+    if (suiteMatch) {
+      currentSuite = { id: `suite-${index}`, name: suiteMatch[1].trim(), tests: [], summary: null };
+      output.suites.push(currentSuite);
+      currentTest = null;
+      inRecap = false;
+      return;
+    }
+
+    if (line.startsWith('Failing tests:')) {
+      inRecap = true;
+      currentTest = null;
+      return;
+    }
+
+    if (line.startsWith('Suite result:')) {
+      if (currentSuite) currentSuite.summary = line.trim();
+      currentTest = null;
+      return;
+    }
+
+    if (/^Ran \d+ test suites?/.test(line)) {
+      output.summary = line.trim();
+      return;
+    }
+
+    const test = inRecap ? null : parseTestHeader(line.trim(), index);
+    if (test) {
+      if (!currentSuite) {
+        // Results printed without a `Ran N tests for ...` line
+        currentSuite = { id: `suite-${index}`, name: 'Tests', tests: [], summary: null };
+        output.suites.push(currentSuite);
+      }
+      currentSuite.tests.push(test);
+      currentTest = test;
+    }
+  });
+  flush(lines.length);
+  onProgress?.(1);
+
+  return output;
+};
+
+// Just the trace trees of a forge output (or bare trace tree)
+export const parseTraces = (text: string): Trace[] => parseForgeOutput(text).traces;
+
+// The test in `suites` with the same suite and test name as `test` from `previousSuites`,
+// e.g. the same test in a re-run or in another version of the code
+export const findMatchingTest = (test: TestResult, previousSuites: TestSuite[], suites: TestSuite[]): TestResult | null => {
+  const suiteName = previousSuites.find(suite => suite.tests.includes(test))?.name;
+  const suite = suites.find(suite => suite.name === suiteName);
+  return suite?.tests.find(candidate => candidate.name === test.name) ?? null;
+};
@@ -0,0 +1,17 @@
+import { Trace } from './types';
+
+// Gas spent in the frame itself, excluding what it forwarded to sub-calls
+export const getSelfGas = (trace: Trace): number | null => {
+  if (trace.gas === null) return null;
+  const childGas = trace.children.reduce((sum, child) => sum + (child.gas ?? 0), 0);
+  return Math.max(0, trace.gas - childGas);
+};
+
+// Children ordered by inclusive gas, most expensive first.
+// Nodes without gas (events, console output, ...) keep their order at the end.
+export const sortByGas = (traces: Trace[]): Trace[] => {
+  return [...traces].sort((a, b) => (b.gas ?? -1) - (a.gas ?? -1));
+};
+
+// Format gas with thousands separators
+export const formatGas = (gas: number | null) => (gas === null ? '' : gas.toLocaleString('en-US'));
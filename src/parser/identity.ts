@@ -0,0 +1,37 @@
+import { Trace } from './types';
+
+// Label a node by what it is rather than where it is in the file
+export const getIdentityLabel = (trace: Trace) => {
+  if (trace.kind === 'call' || trace.kind === 'event') {
+    return `${trace.kind}:${trace.contractName ?? trace.address}::${trace.functionName}`;
+  }
+  // Drop gas so a changed gas cost doesn't make it a different node
+  return `${trace.kind}:${trace.content.replace(/^\[\d+\]\s*/, '')}`;
+};
+
+// Map node IDs to keys that survive re-parsing an edited trace: the path of
+// labels from the root, each numbered among same-labelled siblings. Line-based
+// IDs shift as soon as anything above a node changes; these only change when
+// the call structure leading to the node does.
+export const getTraceIdentities = (traces: Trace[]): Map<string, string> => {
+  const identities = new Map<string, string>();
+  const stack: { nodes: Trace[]; prefix: string }[] = [{ nodes: traces, prefix: '' }];
+
+  while (stack.length > 0) {
+    const { nodes, prefix } = stack.pop()!;
+    const seen = new Map<string, number>();
+    nodes.forEach(node => {
+      const label = getIdentityLabel(node);
+      const occurrence = seen.get(label) ?? 0;
+      seen.set(label, occurrence + 1);
+
+      const identity = `${prefix}/${label}#${occurrence}`;
+      identities.set(node.id, identity);
+      if (node.children.length > 0) {
+        stack.push({ nodes: node.children, prefix: identity });
+      }
+    });
+  }
+
+  return identities;
+};
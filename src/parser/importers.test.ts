@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import transactionJson from './fixtures/calltracer-tx.json?raw';
+import blockJson from './fixtures/calltracer-block.json?raw';
+import castRun from './fixtures/cast-run.txt?raw';
+import forge from './fixtures/vault-vvvv.txt?raw';
+import { detectTraceFormat, parseTraceInput } from './importers';
+
+describe('detectTraceFormat', () => {
+  it('recognises each supported input', () => {
+    expect(detectTraceFormat(transactionJson)).toBe('callTracer');
+    expect(detectTraceFormat(blockJson)).toBe('callTracer');
+    expect(detectTraceFormat(castRun)).toBe('castRun');
+    expect(detectTraceFormat(forge)).toBe('forge');
+  });
+
+  it('falls back to forge for bare trees and other JSON', () => {
+    expect(detectTraceFormat('[100] Counter::increment()\n  └─ ← [Stop]')).toBe('forge');
+    expect(detectTraceFormat('{"jsonrpc":"2.0","id":1,"result":"0x1"}')).toBe('forge');
+    expect(detectTraceFormat('[1, 2')).toBe('forge');
+  });
+});
+
+describe('parseTraceInput', () => {
+  it('parses each format with its importer', () => {
+    expect(parseTraceInput(transactionJson).suites[0].name).toBe('callTracer');
+    expect(parseTraceInput(blockJson).suites[0].tests).toHaveLength(2);
+    expect(parseTraceInput(castRun).suites[0].name).toBe('cast run');
+    expect(parseTraceInput(forge).suites[0].name).toBe('test/Vault.t.sol:VaultTest');
+  });
+
+  it('reports progress for callTracer input', () => {
+    const progress: number[] = [];
+    parseTraceInput(transactionJson, value => progress.push(value));
+
+    expect(progress).toEqual([1]);
+  });
+});
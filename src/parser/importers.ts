@@ -0,0 +1,48 @@
+import { findCallTracerTransactions, parseCallTracer } from './callTracer';
+import { CAST_RUN_PATTERN, parseCastRun } from './castRun';
+import { ForgeOutput, parseForgeOutput } from './forgeOutput';
+import { normalizeTraceText } from './normalize';
+
+// Inputs the viewer can read
+//  - forge:      `forge test -vvvv` output or a bare trace tree
+//  - castRun:    `cast run <tx>` output
+//  - callTracer: JSON from `debug_traceTransaction` with geth's callTracer
+export type TraceFormat = 'forge' | 'castRun' | 'callTracer';
+
+// JSON if the text is some, undefined otherwise. Bare forge trees start
+// with `[gas]`, so a leading bracket alone says nothing.
+const parseJson = (text: string): unknown => {
+  if (!/^\s*[[{]/.test(text)) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// The format of the text, along with the JSON it parsed to (if any) so
+// importers don't parse it a second time
+const detectInput = (text: string): { format: TraceFormat; json: unknown } => {
+  const json = parseJson(text);
+  if (json !== undefined && findCallTracerTransactions(json)) return { format: 'callTracer', json };
+  if (CAST_RUN_PATTERN.test(normalizeTraceText(text))) return { format: 'castRun', json };
+  return { format: 'forge', json };
+};
+
+export const detectTraceFormat = (text: string): TraceFormat => detectInput(text).format;
+
+// Parse any supported input into the same tests and trace trees
+export const parseTraceInput = (text: string, onProgress?: (progress: number) => void): ForgeOutput => {
+  const { format, json } = detectInput(text);
+  switch (format) {
+    case 'callTracer': {
+      const output = parseCallTracer(json);
+      onProgress?.(1);
+      return output;
+    }
+    case 'castRun':
+      return parseCastRun(text, onProgress);
+    case 'forge':
+      return parseForgeOutput(text, onProgress);
+  }
+};
@@ -0,0 +1,37 @@
+export * from './types';
+export { splitArgs, parseArgs } from './args';
+export { parseTraceLines } from './traceParser';
+export { getSelfGas, sortByGas, formatGas } from './gas';
+export { analyzeReverts, getBubbledFrom, isFailure } from './reverts';
+export type { RevertAnalysis } from './reverts';
+export { findMatchingTest, parseForgeOutput, parseTraces } from './forgeOutput';
+export type { ForgeOutput, TestResult, TestStatus, TestSuite } from './forgeOutput';
+export { parseInWorker } from './parseInWorker';
+export { getAncestors, indexTraces, walkTraces } from './traverse';
+export { normalizeTraceText } from './normalize';
+export { getIdentityLabel, getTraceIdentities } from './identity';
+export { ADDRESS_PATTERN, harvestLabels, isAddress, parseLabelFile } from './labels';
+export type { AddressLabels } from './labels';
+export { collectStorageChanges, getStorageKey, getStorageOwner, normalizeSlot } from './storage';
+export type { LocatedStorageChange } from './storage';
+export { getNoiseCategory, getVisibleChildren, walkVisibleTraces } from './classify';
+export type { NoiseCategory, VisibleChildren } from './classify';
+export { matchesQuery, parseQuery } from './query';
+export type { ParsedQuery, QueryComparison, QueryError, QueryField, QueryNode, SearchFields } from './query';
+export { diffTraces, summarizeDiff } from './diff';
+export type { DiffStatus, TraceDiff, TraceDiffSummary } from './diff';
+export { collectStats } from './stats';
+export type { EdgeStats, EventStats, FunctionStats, TraceStats } from './stats';
+export { ETH, ZERO_ADDRESS, buildLedger } from './ledger';
+export type { BalanceChange, FlowKind, Ledger, ValueFlow } from './ledger';
+export { DEFAULT_DECIMALS, NUMBER_FORMATS, collectTokenDecimals, formatNumber, getTokenKey, parseAmount, parseNumber } from './numbers';
+export type { NumberFormat } from './numbers';
+export { findCallTracerTransactions, parseCallTracer } from './callTracer';
+export type { CallTracerFrame, CallTracerLog, CallTracerTransaction } from './callTracer';
+export { parseCastRun } from './castRun';
+export { detectTraceFormat, parseTraceInput } from './importers';
+export type { TraceFormat } from './importers';
+export { collectEvents } from './events';
+export type { TimelineEvent } from './events';
+export { collectDeployments, isCreation } from './deployments';
+export type { Deployment } from './deployments';
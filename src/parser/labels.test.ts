@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import vault from './fixtures/vault-vvvv.txt?raw';
+import { parseForgeOutput } from './forgeOutput';
+import { harvestLabels } from './labels';
+import { parseTraceLines } from './traceParser';
+
+const ALICE = '0x328809bc894f92807417d2dad6b7c998c1afdac6';
+const VAULT = '0x5615deb798bb3e4dfa0139dfa1b3d433cc23b72f';
+
+describe('harvestLabels', () => {
+  it('reads vm.label calls, creations and labelled addresses of a forge trace', () => {
+    expect(harvestLabels(parseForgeOutput(vault).traces)).toEqual({ [ALICE]: 'alice', [VAULT]: 'Vault' });
+  });
+
+  it('reads labelled addresses from arguments and returns alone', () => {
+    const traces = parseTraceLines([
+      '[0] VM::prank(alice: [0x328809Bc894f92807417D2dAD6b7C998c1aFdac6])',
+      '  └─ ← [Return]',
+      '[0] VM::addr(1) [staticcall]',
+      '  └─ ← [Return] bob: [0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf]',
+    ]);
+
+    expect(harvestLabels(traces)).toEqual({ [ALICE]: 'alice', '0x7e5f4552091a69125d5dfcb7b8c2659029395bdf': 'bob' });
+  });
+
+  it('prefers the name given to vm.label over earlier labels', () => {
+    const traces = parseTraceLines([
+      '[0] VM::label(0x328809Bc894f92807417D2dAD6b7C998c1aFdac6, "alice")',
+      '  └─ ← [Return]',
+      '[0] VM::label(alice: [0x328809Bc894f92807417D2dAD6b7C998c1aFdac6], "treasury")',
+      '  └─ ← [Return]',
+    ]);
+
+    expect(harvestLabels(traces)).toEqual({ [ALICE]: 'treasury' });
+  });
+});
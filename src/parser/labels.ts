@@ -0,0 +1,77 @@
+import { isCreation } from './deployments';
+import { walkTraces } from './traverse';
+import { Trace } from './types';
+
+// Address labels keyed by lowercase address
+export type AddressLabels = Record<string, string>;
+
+export const ADDRESS_PATTERN = /0x[a-fA-F0-9]{40}(?![a-fA-F0-9])/g;
+
+export const isAddress = (str: string) => /^0x[a-fA-F0-9]{40}$/.test(str);
+
+const unquote = (str: string) => str.replace(/^"(.*)"$/s, '$1');
+
+// `alice: [0x...]`, how forge prints an address it has a label for
+const LABELLED_ADDRESS_PATTERN = /([A-Za-z_$][A-Za-z0-9_$]*): \[(0x[a-fA-F0-9]{40})\]/g;
+
+// Collect the labels a trace gives away by itself: `VM::label(addr, "name")`
+// cheatcode calls, `→ new Contract@0x...` creation lines and addresses
+// forge already prints labelled (`alice: [0x...]`) in arguments and returns
+export const harvestLabels = (traces: Trace[]): AddressLabels => {
+  const labels: AddressLabels = {};
+
+  walkTraces(traces, trace => {
+    [trace.content, trace.returnContent ?? ''].forEach(text => {
+      for (const [, label, address] of text.matchAll(LABELLED_ADDRESS_PATTERN)) {
+        labels[address.toLowerCase()] ??= label;
+      }
+    });
+
+    if (trace.kind === 'call' && trace.contractName === 'VM' && trace.functionName === 'label') {
+      // Forge prints the labelled address as `alice: [0x...]` once it knows the label
+      const [target, label] = trace.args;
+      const address = target?.value.match(ADDRESS_PATTERN)?.[0];
+      if (address && label) {
+        labels[address.toLowerCase()] = unquote(label.value);
+      }
+      return;
+    }
+
+    if (isCreation(trace) && trace.contractName && trace.address) {
+      labels[trace.address.toLowerCase()] = trace.contractName;
+    }
+  });
+
+  return labels;
+};
+
+// Read labels from an imported JSON file. Accepts a flat map in either
+// direction (`{"0x..": "Name"}` or `{"Name": "0x.."}`), a list of
+// `{address, name}` entries, and forge broadcast files (`run-latest.json`).
+export const parseLabelFile = (json: unknown): AddressLabels => {
+  const labels: AddressLabels = {};
+  const add = (address: unknown, label: unknown) => {
+    if (typeof address === 'string' && typeof label === 'string' && isAddress(address) && label) {
+      labels[address.toLowerCase()] = label;
+    }
+  };
+
+  if (Array.isArray(json)) {
+    json.forEach(entry => add(entry?.address, entry?.name ?? entry?.label ?? entry?.contractName));
+  } else if (json && typeof json === 'object') {
+    const record = json as Record<string, unknown>;
+    if (Array.isArray(record.transactions)) {
+      // forge script broadcast output
+      record.transactions.forEach(tx => add(tx?.contractAddress, tx?.contractName));
+    } else {
+      Object.entries(record).forEach(([key, value]) => {
+        if (isAddress(key)) add(key, value);
+        else if (typeof value === 'string') add(value, key);
+        // e.g. hardhat-deploy style `{"Name": {"address": "0x.."}}`
+        else if (value && typeof value === 'object') add((value as Record<string, unknown>).address, key);
+      });
+    }
+  }
+
+  return labels;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { buildLedger, ETH } from './ledger';
+import { parseTraceLines } from './traceParser';
+
+const VAULT = '0x5615dEB798BB3E4dFa0139dFa1b3D433Cc23b72f';
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+const traces = parseTraceLines([
+  '[100000] Router::swap{value: 3000}()',
+  '  ├─ [20000] Vault::deposit{value: 1000}()',
+  '  │   ├─ [500] Impl::deposit{value: 1000}() [delegatecall]',
+  '  │   │   └─ ← [Stop]',
+  '  │   └─ ← [Stop]',
+  '  ├─ [9000] Token::transfer(to: bob: [0x2222222222222222222222222222222222222222], amount: 250)',
+  '  │   ├─ emit Transfer(from: alice: [0x1111111111111111111111111111111111111111], to: bob: [0x2222222222222222222222222222222222222222], value: 250)',
+  '  │   └─ ← [Return] true',
+  '  ├─ [8000] Nft::transferFrom(0x1111111111111111111111111111111111111111, 0x2222222222222222222222222222222222222222, 7)',
+  '  │   ├─ emit Transfer(from: 0x1111111111111111111111111111111111111111, to: 0x2222222222222222222222222222222222222222, tokenId: 7)',
+  '  │   └─ ← [Stop]',
+  '  ├─ [5000] Vault::withdrawAll()',
+  '  │   ├─ [100] 0x1111111111111111111111111111111111111111::fallback{value: 700}()',
+  '  │   │   └─ ← [Stop]',
+  '  │   ├─ emit Transfer(from: 0x2222222222222222222222222222222222222222, to: 0x1111111111111111111111111111111111111111, value: 99)',
+  '  │   └─ ← [Revert] Locked()',
+  '  └─ ← [Stop]',
+]);
+
+describe('buildLedger', () => {
+  it('moves ETH sent with calls from the caller to the callee', () => {
+    const { flows } = buildLedger(traces, { [VAULT]: 'Vault' });
+    const eth = flows.filter(flow => flow.kind === 'eth');
+
+    expect(eth.map(({ from, to, amount, reverted }) => ({ from, to, amount, reverted }))).toEqual([
+      { from: 'Caller', to: 'Router', amount: 3000n, reverted: false },
+      // The name is resolved through the labels; the delegatecall moves nothing
+      { from: 'Router', to: VAULT.toLowerCase(), amount: 1000n, reverted: false },
+      { from: VAULT.toLowerCase(), to: ALICE, amount: 700n, reverted: true },
+    ]);
+    expect(eth.every(flow => flow.token === ETH)).toBe(true);
+  });
+
+  it('reads ERC-20 Transfer events of the emitting token, skipping ERC-721 ones', () => {
+    const transfers = buildLedger(traces).flows.filter(flow => flow.kind === 'transfer');
+
+    expect(transfers).toHaveLength(2);
+    expect(transfers[0]).toMatchObject({ token: 'Token', from: ALICE, to: BOB, amount: 250n, reverted: false });
+    expect(transfers[1]).toMatchObject({ token: 'Vault', from: BOB, to: ALICE, amount: 99n, reverted: true });
+  });
+
+  it('leaves flows inside reverted frames out of the balances', () => {
+    const { balances } = buildLedger(traces, { [VAULT]: 'Vault' });
+
+    expect(balances).toEqual([
+      { party: 'Caller', token: ETH, delta: -3000n },
+      { party: 'Router', token: ETH, delta: 2000n },
+      { party: VAULT.toLowerCase(), token: ETH, delta: 1000n },
+      { party: ALICE, token: 'Token', delta: -250n },
+      { party: BOB, token: 'Token', delta: 250n },
+    ]);
+  });
+
+  it('drops balances that cancel out', () => {
+    const [root] = parseTraceLines([
+      '[100] A::f{value: 5}()',
+      '  ├─ [50] B::g{value: 5}()',
+      '  │   ├─ [10] A::h{value: 5}()',
+      '  │   │   └─ ← [Stop]',
+      '  │   └─ ← [Stop]',
+      '  └─ ← [Stop]',
+    ]);
+
+    expect(buildLedger([root]).balances).toEqual([
+      { party: 'Caller', token: ETH, delta: -5n },
+      { party: 'A', token: ETH, delta: 5n },
+    ]);
+  });
+});
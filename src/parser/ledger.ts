@@ -0,0 +1,121 @@
+import { ADDRESS_PATTERN, AddressLabels } from './labels';
+import { parseAmount } from './numbers';
+import { isFailure } from './reverts';
+import { getStorageOwner } from './storage';
+import { walkTraces } from './traverse';
+import { Trace, TraceArg } from './types';
+
+export type FlowKind = 'eth' | 'transfer' | 'deposit' | 'withdrawal';
+
+// One movement of ETH or tokens
+export interface ValueFlow {
+  trace: Trace;
+  kind: FlowKind;
+  // 'ETH', or the token contract (address when known, else its name)
+  token: string;
+  from: string;
+  to: string;
+  amount: bigint;
+  // Inside a frame that reverted, so it never happened
+  reverted: boolean;
+}
+
+export interface BalanceChange {
+  party: string;
+  token: string;
+  delta: bigint;
+}
+
+export interface Ledger {
+  flows: ValueFlow[];
+  // Net change per party and token, leaving out ones that cancel out
+  balances: BalanceChange[];
+}
+
+export const ETH = 'ETH';
+export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// The argument with one of the given names, or at a position when forge printed no names
+const findArg = (args: TraceArg[], names: string[], position: number) =>
+  args.find(arg => arg.name !== null && names.includes(arg.name)) ?? (args.every(arg => arg.name === null) ? args[position] : undefined);
+
+// Addresses in arguments may come with a label (`alice: [0x...]`)
+const partyFromArg = (arg: TraceArg | undefined) => {
+  if (!arg) return null;
+  return arg.value.match(ADDRESS_PATTERN)?.[0].toLowerCase() ?? arg.value;
+};
+
+// Reconstruct ETH and token movements from call values and Transfer,
+// Deposit and Withdrawal events. Contracts the trace only names are
+// resolved to addresses through `labels` so both spellings add up.
+export const buildLedger = (traces: Trace[], labels: AddressLabels = {}): Ledger => {
+  const addressByName = new Map<string, string | null>();
+  Object.entries(labels).forEach(([address, name]) => {
+    // Names used for several addresses can't be resolved
+    addressByName.set(name, addressByName.has(name) ? null : address.toLowerCase());
+  });
+
+  // Who a frame acts as: delegatecalls run as their caller
+  const partyOf = (frame: Trace | undefined) => {
+    if (!frame) return 'Caller';
+    const owner = getStorageOwner(frame);
+    if (owner.address) return owner.address.toLowerCase();
+    return (owner.contractName && addressByName.get(owner.contractName)) || owner.contractName || 'unknown';
+  };
+
+  const flows: ValueFlow[] = [];
+  const revertedFrames = new Set<Trace>();
+
+  walkTraces(traces, trace => {
+    const reverted = isFailure(trace) || (!!trace.parent && revertedFrames.has(trace.parent));
+    if (reverted) revertedFrames.add(trace);
+
+    if (trace.kind === 'call') {
+      const amount = trace.value !== null ? parseAmount(trace.value) : null;
+      // Delegatecalls keep the caller's msg.value without moving it again
+      if (amount && trace.callType !== 'delegatecall') {
+        flows.push({ trace, kind: 'eth', token: ETH, from: partyOf(trace.parent), to: partyOf(trace), amount, reverted });
+      }
+      return;
+    }
+    if (trace.kind !== 'event' || !trace.parent) return;
+
+    const token = partyOf(trace.parent);
+    const push = (kind: FlowKind, from: string | null, to: string | null, amountArg: TraceArg | undefined) => {
+      const amount = amountArg ? parseAmount(amountArg.value) : null;
+      if (from && to && amount !== null) flows.push({ trace, kind, token, from, to, amount, reverted });
+    };
+
+    switch (trace.functionName) {
+      case 'Transfer':
+        // ERC721 transfers carry a token ID, not an amount
+        if (trace.args.some(arg => arg.name === 'tokenId' || arg.name === 'id')) return;
+        push('transfer', partyFromArg(findArg(trace.args, ['from', 'src', '_from'], 0)),
+          partyFromArg(findArg(trace.args, ['to', 'dst', '_to'], 1)), findArg(trace.args, ['value', 'amount', 'wad', '_value'], 2));
+        return;
+      case 'Deposit':
+        // WETH-style wrapping mints to the depositor
+        push('deposit', ZERO_ADDRESS, partyFromArg(findArg(trace.args, ['dst', 'to', 'account', 'owner'], 0)),
+          findArg(trace.args, ['wad', 'amount', 'value'], 1));
+        return;
+      case 'Withdrawal':
+        push('withdrawal', partyFromArg(findArg(trace.args, ['src', 'from', 'account', 'owner'], 0)), ZERO_ADDRESS,
+          findArg(trace.args, ['wad', 'amount', 'value'], 1));
+        return;
+    }
+  });
+
+  const balances = new Map<string, BalanceChange>();
+  const adjust = (party: string, token: string, delta: bigint) => {
+    const key = `${party}|${token}`;
+    const balance = balances.get(key) ?? { party, token, delta: 0n };
+    balance.delta += delta;
+    balances.set(key, balance);
+  };
+  flows.filter(flow => !flow.reverted).forEach(flow => {
+    adjust(flow.from, flow.token, -flow.amount);
+    adjust(flow.to, flow.token, flow.amount);
+  });
+
+  return { flows, balances: [...balances.values()].filter(balance => balance.delta !== 0n) };
+};
@@ -0,0 +1,28 @@
+// ANSI escape sequences: CSI (colors, cursor movement) and OSC (titles, hyperlinks),
+// written as \u escapes so the pattern holds no control characters
+const ESC = '\\u001b';
+const BEL = '\\u0007';
+const ANSI_PATTERN = new RegExp(
+  `${ESC}\\[[0-9;?]*[ -/]*[@-~]|${ESC}\\][^${BEL}${ESC}]*(?:${BEL}|${ESC}\\\\)|${ESC}[@-Z\\\\-_]`,
+  'g'
+);
+
+// Timestamp prefix CI runners (e.g. GitHub Actions) put in front of every log line
+const CI_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z ?/;
+
+// Clean up forge output captured from a terminal or CI log so the parser
+// only sees plain text: strip color codes, unify line endings and drop
+// timestamp prefixes when every line carries one
+export const normalizeTraceText = (text: string): string => {
+  const lines = text
+    .replace(ANSI_PATTERN, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n');
+
+  const nonEmpty = lines.filter(line => line.trim());
+  if (nonEmpty.length > 0 && nonEmpty.every(line => CI_TIMESTAMP_PATTERN.test(line))) {
+    return lines.map(line => line.replace(CI_TIMESTAMP_PATTERN, '')).join('\n');
+  }
+
+  return lines.join('\n');
+};
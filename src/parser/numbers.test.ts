@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { collectTokenDecimals, formatNumber, parseAmount, parseNumber } from './numbers';
+import { parseTraceLines } from './traceParser';
+
+const MAX_UINT256 = '115792089237316195423570985008687907853269984665640564039457584007913129639935';
+const MIN_INT256 = '-57896044618658097711785492504343953926634992332820282019728792003956564819968';
+
+describe('parseAmount', () => {
+  it('reads decimal, hinted, scientific and hex amounts', () => {
+    expect(parseAmount('1000000000000000000 [1e18]')).toBe(10n ** 18n);
+    expect(parseAmount('1.5e18')).toBe(15n * 10n ** 17n);
+    expect(parseAmount('0x1f')).toBe(31n);
+    expect(parseAmount(MAX_UINT256)).toBe(2n ** 256n - 1n);
+  });
+
+  it('rejects fractions and non-numbers', () => {
+    expect(parseAmount('1.23456e2')).toBeNull();
+    expect(parseAmount('-5')).toBeNull();
+    expect(parseAmount('alice')).toBeNull();
+  });
+});
+
+describe('parseNumber', () => {
+  it('reads huge uint256 values with their hint', () => {
+    expect(parseNumber(`${MAX_UINT256} [1.157e77]`)).toBe(2n ** 256n - 1n);
+    expect(parseNumber(`0x${'ab'.repeat(64)}`)).toBeNull();
+  });
+
+  it('reads negative int values', () => {
+    expect(parseNumber('-42')).toBe(-42n);
+    expect(parseNumber(`${MIN_INT256} [-5.789e76]`)).toBe(-(2n ** 255n));
+  });
+
+  it('leaves addresses to the labels', () => {
+    expect(parseNumber('0x328809Bc894f92807417D2dAD6b7C998c1aFdac6')).toBeNull();
+    expect(parseNumber(`0x${'ab'.repeat(32)}`)).toBe(BigInt(`0x${'ab'.repeat(32)}`));
+  });
+});
+
+describe('formatNumber', () => {
+  const oneAndAHalfEther = 15n * 10n ** 17n;
+
+  it('shows wei, hex and ether', () => {
+    expect(formatNumber(oneAndAHalfEther, 'raw')).toBeNull();
+    expect(formatNumber(oneAndAHalfEther, 'decimal')).toBe('1500000000000000000');
+    expect(formatNumber(oneAndAHalfEther, 'hex')).toBe('0x14d1120d7b160000');
+    expect(formatNumber(oneAndAHalfEther, 'units')).toBe('1.5');
+  });
+
+  it('scales token units by decimals', () => {
+    expect(formatNumber(123_456_789n, 'units', 6)).toBe('123.456789');
+    expect(formatNumber(-1_500_000n, 'units', 6)).toBe('-1.5');
+    expect(formatNumber(42n, 'units', 0)).toBe('42');
+  });
+
+  it('formats huge uint256 values', () => {
+    const max = 2n ** 256n - 1n;
+
+    expect(formatNumber(max, 'decimal')).toBe(MAX_UINT256);
+    expect(formatNumber(max, 'hex')).toBe(`0x${'f'.repeat(64)}`);
+    // Digits dropped from the mantissa are marked
+    expect(formatNumber(max, 'scientific')).toBe('≈1.1579e77');
+    expect(formatNumber(10n ** 18n, 'scientific')).toBe('1e18');
+  });
+
+  it('keeps the sign of negative values', () => {
+    const min = -(2n ** 255n);
+
+    expect(formatNumber(min, 'hex')).toBe(`-0x8${'0'.repeat(63)}`);
+    expect(formatNumber(min, 'scientific')).toBe('≈-5.7896e76');
+    expect(formatNumber(-1234n, 'scientific')).toBe('-1234');
+  });
+
+  it('only shows timestamps as dates', () => {
+    expect(formatNumber(1_700_000_000n, 'date')).toBe('2023-11-14 22:13:20 UTC');
+    expect(formatNumber(42n, 'date')).toBeNull();
+  });
+});
+
+describe('collectTokenDecimals', () => {
+  it('reads decimals() calls, keyed by the proxy for delegatecalls', () => {
+    const traces = parseTraceLines([
+      '[100] Test::run()',
+      '  ├─ [10] Usdc::decimals() [staticcall]',
+      '  │   ├─ [5] UsdcImpl::decimals() [delegatecall]',
+      '  │   │   └─ ← [Return] 6',
+      '  │   └─ ← [Return] 6',
+      '  ├─ [10] 0x1111111111111111111111111111111111111111::decimals() [staticcall]',
+      '  │   └─ ← [Return] 8',
+      '  ├─ [10] Weird::decimals() [staticcall]',
+      '  │   └─ ← [Return] 1000',
+      '  └─ ← [Stop]',
+    ]);
+
+    expect([...collectTokenDecimals(traces)]).toEqual([
+      ['usdc', 6],
+      ['0x1111111111111111111111111111111111111111', 8],
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { formatUnits } from 'viem';
+import { getStorageOwner } from './storage';
+import { walkTraces } from './traverse';
+import { Trace } from './types';
+
+// How numeric arguments and return values are displayed
+//  - raw:   exactly as forge printed them
+//  - units: divided by the token's decimals (e.g. wei to ether)
+//  - date:  Unix timestamps as UTC dates
+export type NumberFormat = 'raw' | 'decimal' | 'hex' | 'scientific' | 'units' | 'date';
+
+export const NUMBER_FORMATS: { format: NumberFormat; label: string }[] = [
+  { format: 'raw', label: 'As printed' },
+  { format: 'decimal', label: 'Decimal' },
+  { format: 'hex', label: 'Hex' },
+  { format: 'scientific', label: 'Scientific' },
+  { format: 'units', label: 'Token units' },
+  { format: 'date', label: 'Date' },
+];
+
+export const DEFAULT_DECIMALS = 18;
+
+// Only values in this range (2001 to 2286) are taken for timestamps
+const MIN_TIMESTAMP = 1_000_000_000n;
+const MAX_TIMESTAMP = 10_000_000_000n;
+
+// Parse an amount as forge prints it: decimal (optionally followed by a
+// `[1e18]` hint), scientific notation or hex. Null for anything else.
+export const parseAmount = (value: string): bigint | null => {
+  const text = value.replace(/\s*\[[^\]]*\]$/, '').trim();
+  if (/^\d+$/.test(text) || /^0x[0-9a-fA-F]+$/.test(text)) return BigInt(text);
+
+  const scientific = text.match(/^(\d+)(?:\.(\d+))?e(\d+)$/);
+  if (scientific) {
+    const fraction = scientific[2] ?? '';
+    const exponent = parseInt(scientific[3], 10) - fraction.length;
+    if (exponent < 0) return null;
+    return BigInt(`${scientific[1]}${fraction}`) * 10n ** BigInt(exponent);
+  }
+  return null;
+};
+
+// A displayed value that can be reformatted: signed integers and hex words,
+// but not addresses (those get labels instead)
+export const parseNumber = (value: string): bigint | null => {
+  const text = value.trim();
+  // The limit leaves out byte blobs; forge's `[1.157e77]` hint doesn't count
+  const digits = text.replace(/\s*\[[^\]]*\]$/, '');
+  if (/^0x[0-9a-fA-F]{40}$/.test(digits) || digits.length > 80) return null;
+  if (text.startsWith('-')) {
+    const amount = parseAmount(text.substring(1));
+    return amount !== null ? -amount : null;
+  }
+  return parseAmount(text);
+};
+
+// Significant digits kept in scientific notation
+const SCIENTIFIC_DIGITS = 5;
+
+const formatScientific = (value: bigint) => {
+  const sign = value < 0n ? '-' : '';
+  const digits = (value < 0n ? -value : value).toString();
+  if (digits.length <= SCIENTIFIC_DIGITS) return `${sign}${digits}`;
+
+  const fraction = digits.substring(1, SCIENTIFIC_DIGITS).replace(/0+$/, '');
+  // Mark values that lost digits
+  const approximate = /[1-9]/.test(digits.substring(SCIENTIFIC_DIGITS)) ? '≈' : '';
+  return `${approximate}${sign}${digits[0]}${fraction ? `.${fraction}` : ''}e${digits.length - 1}`;
+};
+
+// The value in another format, or null when it should stay as printed
+// (raw mode, or a date format for a number that is no timestamp)
+export const formatNumber = (value: bigint, format: NumberFormat, decimals = DEFAULT_DECIMALS): string | null => {
+  switch (format) {
+    case 'raw':
+      return null;
+    case 'decimal':
+      return value.toString();
+    case 'hex':
+      return `${value < 0n ? '-' : ''}0x${(value < 0n ? -value : value).toString(16)}`;
+    case 'scientific':
+      return formatScientific(value);
+    case 'units':
+      return formatUnits(value, decimals);
+    case 'date':
+      if (value < MIN_TIMESTAMP || value >= MAX_TIMESTAMP) return null;
+      return new Date(Number(value) * 1000).toISOString().replace('T', ' ').replace(/\.000Z$/, ' UTC');
+  }
+};
+
+// Key of the contract a frame acts for: delegatecalls count as their proxy
+export const getTokenKey = (trace: Trace) => {
+  const owner = getStorageOwner(trace);
+  return (owner.address ?? owner.contractName ?? '').toLowerCase();
+};
+
+// Decimals of every token whose `decimals()` was called in the traces,
+// keyed by `getTokenKey`
+export const collectTokenDecimals = (traces: Trace[]): Map<string, number> => {
+  const decimals = new Map<string, number>();
+  walkTraces(traces, trace => {
+    if (trace.kind !== 'call' || trace.functionName !== 'decimals' || trace.args.length > 0) return;
+    const value = trace.returnData !== null ? parseAmount(trace.returnData) : null;
+    // uint8, anything larger is not a decimals() we know
+    if (value === null || value > 255n) return;
+    decimals.set(getTokenKey(trace), Number(value));
+  });
+  return decimals;
+};
@@ -0,0 +1,66 @@
+import { ForgeOutput } from './forgeOutput';
+import { parseTraceInput } from './importers';
+
+export interface ParserRequest {
+  text: string;
+}
+
+export type ParserResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; output: ForgeOutput }
+  | { type: 'error'; message: string };
+
+// Cancel functions of the parses still running, by channel
+const activeParses = new Map<string, () => void>();
+
+// Parse trace input in a Web Worker so multi-megabyte logs don't block the UI.
+// Falls back to parsing on the main thread where workers are unavailable.
+// Starting a parse terminates the previous one on the same `channel`, whose
+// promise then rejects, so a trace and a comparison can still load side by side.
+export const parseInWorker = (
+  text: string,
+  onProgress?: (progress: number) => void,
+  channel = 'trace'
+): Promise<ForgeOutput> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(parseTraceInput(text, onProgress));
+  }
+
+  activeParses.get(channel)?.();
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      if (activeParses.get(channel) === cancel) activeParses.delete(channel);
+    };
+    const cancel = () => {
+      finish();
+      reject(new Error('Parse cancelled by a newer one'));
+    };
+    activeParses.set(channel, cancel);
+
+    worker.onmessage = (event: MessageEvent<ParserResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return;
+      }
+
+      finish();
+      if (response.type === 'done') {
+        resolve(response.output);
+      } else {
+        reject(new Error(response.message));
+      }
+    };
+
+    worker.onerror = event => {
+      finish();
+      reject(new Error(event.message));
+    };
+
+    const request: ParserRequest = { text };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,17 @@
+import { parseTraceInput } from './importers';
+import { ParserRequest, ParserResponse } from './parseInWorker';
+
+// Typed as a Worker so postMessage takes no target origin (the app's lib is DOM)
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<ParserRequest>) => {
+  const post = (response: ParserResponse) => ctx.postMessage(response);
+
+  try {
+    const output = parseTraceInput(event.data.text, progress => post({ type: 'progress', progress }));
+    // Structured cloning keeps the parent links and the trees shared between tests intact
+    post({ type: 'done', output });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import vault from './fixtures/vault-vvvv.txt?raw';
+import { parseForgeOutput } from './forgeOutput';
+import { QueryNode, SearchFields, matchesQuery, parseQuery } from './query';
+import { walkTraces } from './traverse';
+import { Trace } from './types';
+
+const parse = (input: string): QueryNode => {
+  const { query, error } = parseQuery(input);
+  if (error) throw new Error(`${error.message} at ${error.position}`);
+  return query!;
+};
+
+const text = (value: string): QueryNode => ({ type: 'text', value });
+
+// What the viewer searches by, without decoded names or labels
+const fieldsOf = (trace: Trace): SearchFields => ({
+  text: trace.content,
+  contracts: trace.contractName ? [trace.contractName] : [],
+  functions: trace.functionName ? [trace.functionName] : [],
+  args: trace.args.map(arg => arg.value).join(', '),
+  returns: trace.returnData ?? trace.revertReason ?? '',
+});
+
+// Function names of the nodes of test_Deposit() matching the query
+const search = (input: string): (string | null)[] => {
+  const query = parse(input);
+  const matches: (string | null)[] = [];
+  walkTraces([parseForgeOutput(vault).traces[1]], trace => {
+    if (matchesQuery(query, trace, fieldsOf(trace))) matches.push(trace.functionName);
+  });
+  return matches;
+};
+
+describe('parseQuery', () => {
+  it('binds NOT tighter than implicit AND, and AND tighter than OR', () => {
+    expect(parse('a b OR c')).toEqual({
+      type: 'or',
+      left: { type: 'and', left: text('a'), right: text('b') },
+      right: text('c'),
+    });
+    expect(parse('NOT a b')).toEqual({ type: 'and', left: { type: 'not', operand: text('a') }, right: text('b') });
+    expect(parse('a OR NOT b AND c')).toEqual({
+      type: 'or',
+      left: text('a'),
+      right: { type: 'and', left: { type: 'not', operand: text('b') }, right: text('c') },
+    });
+  });
+
+  it('groups with parentheses and keeps call parentheses in bare words', () => {
+    expect(parse('(a OR b) c')).toEqual({
+      type: 'and',
+      left: { type: 'or', left: text('a'), right: text('b') },
+      right: text('c'),
+    });
+    expect(parse('increment()')).toEqual(text('increment()'));
+    expect(parse('(increment() OR fn:number)')).toEqual({
+      type: 'or',
+      left: text('increment()'),
+      right: { type: 'field', field: 'fn', comparison: ':', value: 'number', pattern: null },
+    });
+  });
+
+  it('reads quoted values with escaped quotes', () => {
+    expect(parse('"say \\"hi\\" twice"')).toEqual(text('say "hi" twice'));
+    expect(parse('args:"a b"')).toMatchObject({ type: 'field', field: 'args', value: 'a b' });
+  });
+
+  it('reads /regex/flags, case-insensitive unless flags are given', () => {
+    const bare = parse('/^dep/') as Extract<QueryNode, { type: 'regex' }>;
+    const flagged = parse('fn:/^Dep/sg') as Extract<QueryNode, { type: 'field' }>;
+
+    expect(bare.pattern.flags).toBe('i');
+    expect(bare.pattern.source).toBe('^dep');
+    expect(flagged.pattern?.flags).toBe('s');
+    expect(parse('/a\\/b/').type).toBe('regex');
+    expect((parse('/a\\/b/') as Extract<QueryNode, { type: 'regex' }>).pattern.test('a/b')).toBe(true);
+  });
+
+  it('strips _ and , separators from numbers', () => {
+    expect(parse('gas>=50_000')).toMatchObject({ field: 'gas', comparison: '>=', value: '50000' });
+    expect(parse('gas<1,000')).toMatchObject({ field: 'gas', comparison: '<', value: '1000' });
+  });
+
+  it('returns no query for blank input', () => {
+    expect(parseQuery('   ')).toEqual({ query: null, error: null });
+  });
+
+  it('reports errors with their position', () => {
+    expect(parseQuery('fn:a "abc').error).toEqual({ message: 'Unterminated quote', position: 5 });
+    expect(parseQuery('a b )').error).toEqual({ message: 'Unmatched )', position: 4 });
+    expect(parseQuery('fn:a type:foo').error).toEqual({
+      message: 'Unknown type "foo", expected one of call, staticcall, delegatecall, callcode, create, create2, event, text',
+      position: 10,
+    });
+    expect(parseQuery('status:bad').error).toEqual({
+      message: 'Unknown status "bad", expected one of return, stop, revert, outofgas, error, fail',
+      position: 7,
+    });
+    expect(parseQuery('depth<1 gas>lots').error).toEqual({ message: 'gas needs a number, got "lots"', position: 12 });
+    expect(parseQuery('(a OR b').error).toEqual({ message: 'Missing )', position: 7 });
+  });
+});
+
+describe('matchesQuery', () => {
+  it('matches fields, bare words and regexes', () => {
+    // `:` matches substrings (VaultTest too), `=` whole values
+    expect(search('contract:Vault')).toEqual(['test_Deposit', 'deposit', 'Deposited', 'balanceOf']);
+    expect(search('contract=vault fn:balance')).toEqual(['balanceOf']);
+    expect(search('type:staticcall NOT contract:VM')).toEqual(['balanceOf']);
+    expect(search('type:event')).toEqual(['Deposited']);
+    expect(search('/^emit Dep/')).toEqual(['Deposited']);
+    expect(search('deposit{value')).toEqual(['deposit']);
+  });
+
+  it('compares gas and depth numerically', () => {
+    expect(search('gas>40_000')).toEqual(['test_Deposit', 'deposit']);
+    expect(search('gas<=558 gas>0')).toEqual(['balanceOf']);
+    expect(search('depth=0')).toEqual(['test_Deposit']);
+    expect(search('depth>=1 (fn:prank OR fn:assertEq)')).toEqual(['prank', 'assertEq']);
+  });
+
+  it('matches statuses', () => {
+    expect(search('status:stop')).toEqual(['test_Deposit', 'deposit']);
+    expect(search('status:fail')).toEqual([]);
+  });
+});
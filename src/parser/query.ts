@@ -0,0 +1,321 @@
+import { isFailure } from './reverts';
+import { Trace } from './types';
+
+// Text a query can match a node by, including what only the viewer knows
+// (names decoded from artifacts, address labels)
+export interface SearchFields {
+  // Everything searchable, for bare words and regexes
+  text: string;
+  contracts: string[];
+  functions: string[];
+  args: string;
+  returns: string;
+}
+
+export type QueryField = 'contract' | 'fn' | 'addr' | 'args' | 'ret' | 'type' | 'status' | 'depth' | 'gas';
+export type QueryComparison = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+export type QueryNode =
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'text'; value: string }
+  | { type: 'regex'; pattern: RegExp }
+  | { type: 'field'; field: QueryField; comparison: QueryComparison; value: string; pattern: RegExp | null };
+
+export interface QueryError {
+  message: string;
+  // Offset into the query the error refers to
+  position: number;
+}
+
+export type ParsedQuery = { query: QueryNode | null; error: null } | { query: null; error: QueryError };
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  contract: 'contract',
+  c: 'contract',
+  fn: 'fn',
+  function: 'fn',
+  name: 'fn',
+  addr: 'addr',
+  address: 'addr',
+  args: 'args',
+  arg: 'args',
+  ret: 'ret',
+  return: 'ret',
+  returns: 'ret',
+  type: 'type',
+  status: 'status',
+  depth: 'depth',
+  gas: 'gas',
+};
+
+const NUMERIC_FIELDS: QueryField[] = ['depth', 'gas'];
+const TYPE_VALUES = ['call', 'staticcall', 'delegatecall', 'callcode', 'create', 'create2', 'event', 'text'];
+const STATUS_VALUES = ['return', 'stop', 'revert', 'outofgas', 'error', 'fail'];
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; position: number }
+  | { kind: 'term'; node: QueryNode; position: number };
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+// Regexes are stateless here; `g` and `y` would make `test` remember positions
+const createPattern = (source: string, flags: string, position: number): RegExp => {
+  try {
+    return new RegExp(source, flags.replace(/[gy]/g, '') || 'i');
+  } catch (error) {
+    throw new QuerySyntaxError(`Invalid regex: ${error instanceof Error ? error.message : error}`, position);
+  }
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let openGroups = 0;
+
+  // `"..."`, with `\"` for a literal quote
+  const readQuoted = (): string => {
+    const start = pos;
+    let value = '';
+    pos++;
+    while (pos < input.length && input[pos] !== '"') {
+      if (input[pos] === '\\' && pos + 1 < input.length) pos++;
+      value += input[pos++];
+    }
+    if (pos >= input.length) throw new QuerySyntaxError('Unterminated quote', start);
+    pos++;
+    return value;
+  };
+
+  // `/source/flags`
+  const readRegex = (): RegExp => {
+    const start = pos;
+    let source = '';
+    pos++;
+    while (pos < input.length && input[pos] !== '/') {
+      if (input[pos] === '\\' && pos + 1 < input.length) source += input[pos++];
+      source += input[pos++];
+    }
+    if (pos >= input.length) throw new QuerySyntaxError('Unterminated regex', start);
+    pos++;
+    const flags = input.substring(pos).match(/^[a-z]*/)![0];
+    pos += flags.length;
+    return createPattern(source, flags, start);
+  };
+
+  // A bare word ends at whitespace or at a `)` closing a group, so
+  // `increment()` stays one word while `(fn:a OR fn:b)` is a group
+  const readWord = (): string => {
+    const start = pos;
+    let balance = 0;
+    while (pos < input.length && !/\s/.test(input[pos])) {
+      if (input[pos] === '(') balance++;
+      if (input[pos] === ')') {
+        if (balance === 0 && openGroups > 0) break;
+        balance--;
+      }
+      pos++;
+    }
+    return input.substring(start, pos);
+  };
+
+  const readField = (field: QueryField, comparison: QueryComparison, start: number): QueryNode => {
+    const valueStart = pos;
+    let value: string;
+    let pattern: RegExp | null = null;
+    if (input[pos] === '"') {
+      value = readQuoted();
+    } else if (input[pos] === '/') {
+      pattern = readRegex();
+      value = pattern.source;
+    } else {
+      value = readWord();
+    }
+
+    const name = input.substring(start, valueStart);
+    if (!value && !pattern) throw new QuerySyntaxError(`Missing value after ${name}`, valueStart);
+
+    if (NUMERIC_FIELDS.includes(field)) {
+      if (pattern || !/^\d[\d_,]*$/.test(value)) {
+        throw new QuerySyntaxError(`${field} needs a number, got "${value}"`, valueStart);
+      }
+      value = value.replace(/[_,]/g, '');
+    } else if (comparison !== ':' && comparison !== '=') {
+      throw new QuerySyntaxError(`${comparison} only works on depth and gas`, start);
+    } else if (field === 'type' && !TYPE_VALUES.includes(value.toLowerCase())) {
+      throw new QuerySyntaxError(`Unknown type "${value}", expected one of ${TYPE_VALUES.join(', ')}`, valueStart);
+    } else if (field === 'status' && !STATUS_VALUES.includes(value.toLowerCase())) {
+      throw new QuerySyntaxError(`Unknown status "${value}", expected one of ${STATUS_VALUES.join(', ')}`, valueStart);
+    }
+
+    return { type: 'field', field, comparison, value, pattern };
+  };
+
+  while (pos < input.length) {
+    const char = input[pos];
+    const start = pos;
+
+    if (/\s/.test(char)) {
+      pos++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'lparen', position: start });
+      openGroups++;
+      pos++;
+    } else if (char === ')') {
+      if (openGroups === 0) throw new QuerySyntaxError('Unmatched )', start);
+      tokens.push({ kind: 'rparen', position: start });
+      openGroups--;
+      pos++;
+    } else if (char === '"') {
+      tokens.push({ kind: 'term', node: { type: 'text', value: readQuoted() }, position: start });
+    } else if (char === '/') {
+      tokens.push({ kind: 'term', node: { type: 'regex', pattern: readRegex() }, position: start });
+    } else {
+      const fieldMatch = input.substring(pos).match(/^([A-Za-z]+)(>=|<=|:|=|>|<)/);
+      const field = fieldMatch ? FIELD_ALIASES[fieldMatch[1].toLowerCase()] : undefined;
+      if (fieldMatch && field) {
+        pos += fieldMatch[0].length;
+        const node = readField(field, fieldMatch[2] as QueryComparison, start);
+        tokens.push({ kind: 'term', node, position: start });
+        continue;
+      }
+
+      const word = readWord();
+      if (word === 'AND') tokens.push({ kind: 'and', position: start });
+      else if (word === 'OR') tokens.push({ kind: 'or', position: start });
+      else if (word === 'NOT') tokens.push({ kind: 'not', position: start });
+      else tokens.push({ kind: 'term', node: { type: 'text', value: word }, position: start });
+    }
+  }
+
+  return tokens;
+};
+
+// Recursive descent over `or := and (OR and)*`, `and := not (AND? not)*`,
+// `not := NOT not | ( or ) | term`. Adjacent terms are ANDed.
+const parseTokens = (tokens: Token[], inputLength: number): QueryNode => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const positionOf = (token: Token | undefined) => token?.position ?? inputLength;
+
+  const parseNot = (): QueryNode => {
+    const token = tokens[index++];
+    if (!token) throw new QuerySyntaxError('Query ends where a term was expected', inputLength);
+    switch (token.kind) {
+      case 'not':
+        return { type: 'not', operand: parseNot() };
+      case 'lparen': {
+        const node = parseOr();
+        if (peek()?.kind !== 'rparen') throw new QuerySyntaxError('Missing )', positionOf(peek()));
+        index++;
+        return node;
+      }
+      case 'term':
+        return token.node;
+      default:
+        throw new QuerySyntaxError(`Expected a term, got ${token.kind === 'rparen' ? ')' : token.kind.toUpperCase()}`, token.position);
+    }
+  };
+
+  const parseAnd = (): QueryNode => {
+    let node = parseNot();
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'rparen') {
+      if (peek().kind === 'and') index++;
+      node = { type: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseOr = (): QueryNode => {
+    let node = parseAnd();
+    while (peek()?.kind === 'or') {
+      index++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) throw new QuerySyntaxError('Unexpected )', positionOf(peek()));
+  return node;
+};
+
+// Parse a search query such as `contract:Pair fn:swap gas>50000 NOT status:revert`.
+// Plain words keep working as case-insensitive substring matches.
+export const parseQuery = (input: string): ParsedQuery => {
+  try {
+    const tokens = tokenize(input);
+    return { query: tokens.length > 0 ? parseTokens(tokens, input.length) : null, error: null };
+  } catch (error) {
+    if (!(error instanceof QuerySyntaxError)) throw error;
+    return { query: null, error: { message: error.message, position: error.position } };
+  }
+};
+
+const matchesText = (haystack: string, node: Extract<QueryNode, { type: 'field' }>) => {
+  if (node.pattern) return node.pattern.test(haystack);
+  return node.comparison === '='
+    ? haystack.toLowerCase() === node.value.toLowerCase()
+    : haystack.toLowerCase().includes(node.value.toLowerCase());
+};
+
+const compareNumber = (actual: number | null, comparison: QueryComparison, expected: number) => {
+  if (actual === null) return false;
+  switch (comparison) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+};
+
+const matchesField = (node: Extract<QueryNode, { type: 'field' }>, trace: Trace, fields: SearchFields): boolean => {
+  const value = node.value.toLowerCase();
+  switch (node.field) {
+    case 'contract':
+      return fields.contracts.some(name => matchesText(name, node));
+    case 'fn':
+      return fields.functions.some(name => matchesText(name, node));
+    case 'addr':
+      return trace.address !== null && matchesText(trace.address, node);
+    case 'args':
+      return matchesText(fields.args, node);
+    case 'ret':
+      return matchesText(fields.returns, node);
+    case 'type':
+      return trace.kind === 'call' ? trace.callType === value : trace.kind === value;
+    case 'status':
+      return value === 'fail' ? isFailure(trace) : trace.status?.toLowerCase() === value;
+    case 'depth':
+      return compareNumber(trace.depth, node.comparison, Number(node.value));
+    case 'gas':
+      return compareNumber(trace.gas, node.comparison, Number(node.value));
+  }
+};
+
+export const matchesQuery = (node: QueryNode, trace: Trace, fields: SearchFields): boolean => {
+  switch (node.type) {
+    case 'and':
+      return matchesQuery(node.left, trace, fields) && matchesQuery(node.right, trace, fields);
+    case 'or':
+      return matchesQuery(node.left, trace, fields) || matchesQuery(node.right, trace, fields);
+    case 'not':
+      return !matchesQuery(node.operand, trace, fields);
+    case 'text':
+      return fields.text.toLowerCase().includes(node.value.toLowerCase());
+    case 'regex':
+      return node.pattern.test(fields.text);
+    case 'field':
+      return matchesField(node, trace, fields);
+  }
+};
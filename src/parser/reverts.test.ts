@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeReverts, getBubbledFrom, isFailure } from './reverts';
+import { parseTraceLines } from './traceParser';
+
+// A revert raised three frames down, passed up unchanged by the pool and
+// re-raised without data by the router
+const [bubbled] = parseTraceLines([
+  '[1000] Test::test_Swap()',
+  '  ├─ [800] Router::swap()',
+  '  │   ├─ [300] Pool::swap()',
+  '  │   │   ├─ [50] Pool::getReserves() [staticcall]',
+  '  │   │   │   └─ ← [Return] 100, 200',
+  '  │   │   ├─ [100] Token::transfer(0x1111111111111111111111111111111111111111, 5)',
+  '  │   │   │   ├─ emit Log(1)',
+  '  │   │   │   └─ ← [Revert] InsufficientBalance()',
+  '  │   │   └─ ← [Revert] InsufficientBalance()',
+  '  │   └─ ← [Revert] EvmError: Revert',
+  '  └─ ← [Revert] EvmError: Revert',
+]);
+
+// The first revert is caught by try/catch; the test fails on its own later
+const [caught] = parseTraceLines([
+  '[500] Test::test_Price()',
+  '  ├─ [100] Oracle::price() [staticcall]',
+  '  │   └─ ← [Revert] Stale()',
+  '  ├─ [50] Oracle::fallbackPrice() [staticcall]',
+  '  │   └─ ← [Return] 7',
+  '  └─ ← [Revert] PriceTooLow()',
+], 100);
+
+const [passing] = parseTraceLines([
+  '[300] Test::test_Ok()',
+  '  ├─ [100] Oracle::price() [staticcall]',
+  '  │   └─ ← [Revert] Stale()',
+  '  └─ ← [Stop]',
+], 200);
+
+describe('getBubbledFrom', () => {
+  it('follows a revert up through the frames that passed it on', () => {
+    const router = bubbled.children[0];
+    const pool = router.children[0];
+    const transfer = pool.children[1];
+
+    expect(getBubbledFrom(bubbled)).toBe(router);
+    // Re-raised without a reason of its own
+    expect(getBubbledFrom(router)).toBe(pool);
+    expect(getBubbledFrom(pool)).toBe(transfer);
+    expect(getBubbledFrom(transfer)).toBeNull();
+  });
+
+  it('does not blame a revert that was caught', () => {
+    expect(isFailure(caught.children[0])).toBe(true);
+    expect(getBubbledFrom(caught)).toBeNull();
+  });
+
+  it('is null for frames that succeeded', () => {
+    expect(getBubbledFrom(passing)).toBeNull();
+  });
+});
+
+describe('analyzeReverts', () => {
+  it('finds the frame each failing root reverted in first', () => {
+    const { rootCauses } = analyzeReverts([bubbled, caught, passing]);
+    const transfer = bubbled.children[0].children[0].children[1];
+
+    expect(rootCauses).toEqual([transfer, caught]);
+  });
+
+  it('collects the path from each failing root to its root cause', () => {
+    const { failingPath } = analyzeReverts([bubbled, caught, passing]);
+    const router = bubbled.children[0];
+    const pool = router.children[0];
+
+    expect([...failingPath]).toEqual([bubbled.id, router.id, pool.id, pool.children[1].id, caught.id]);
+    // Caught reverts and passing tests are not on it
+    expect(failingPath.has(caught.children[0].id)).toBe(false);
+    expect(failingPath.has(passing.children[0].id)).toBe(false);
+  });
+});
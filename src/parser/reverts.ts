@@ -0,0 +1,50 @@
+import { Trace } from './types';
+
+export interface RevertAnalysis {
+  // The frame each failing root trace originally reverted in, in tree order
+  rootCauses: Trace[];
+  // IDs of every frame from a failing root down to its root cause
+  failingPath: Set<string>;
+}
+
+export const isFailure = (trace: Trace) =>
+  trace.status === 'revert' || trace.status === 'outOfGas' || trace.status === 'error';
+
+// Reasons a frame reports when it merely re-raised empty revert data
+const isGenericReason = (reason: string | null) => !reason || reason === 'EvmError: Revert';
+
+// The child a failing frame got its revert from, or null when the frame
+// reverted on its own. Only the last failing child can have bubbled up:
+// earlier ones were caught, since execution continued past them.
+export const getBubbledFrom = (trace: Trace): Trace | null => {
+  if (!isFailure(trace)) return null;
+
+  for (let i = trace.children.length - 1; i >= 0; i--) {
+    const child = trace.children[i];
+    if (child.kind === 'event' || !isFailure(child)) continue;
+
+    const sameReason = child.revertReason === trace.revertReason || isGenericReason(trace.revertReason);
+    return sameReason ? child : null;
+  }
+
+  return null;
+};
+
+// Follow every failing root down through bubbled reverts to the frame that
+// reverted first
+export const analyzeReverts = (traces: Trace[]): RevertAnalysis => {
+  const rootCauses: Trace[] = [];
+  const failingPath = new Set<string>();
+
+  traces.filter(isFailure).forEach(root => {
+    let current = root;
+    failingPath.add(current.id);
+    for (let next = getBubbledFrom(current); next; next = getBubbledFrom(current)) {
+      current = next;
+      failingPath.add(current.id);
+    }
+    rootCauses.push(current);
+  });
+
+  return { rootCauses, failingPath };
+};
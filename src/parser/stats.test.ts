@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { getSelfGas } from './gas';
+import { collectStats } from './stats';
+import { parseTraceLines } from './traceParser';
+import { walkTraces } from './traverse';
+
+const traces = parseTraceLines([
+  '[1000] Router::swap()',
+  '  ├─ [300] Token::transfer(0x2222222222222222222222222222222222222222, 5)',
+  '  │   ├─ emit Transfer(from: 0x1111111111111111111111111111111111111111, to: 0x2222222222222222222222222222222222222222, value: 5)',
+  '  │   └─ ← [Return] true',
+  '  ├─ [400] Pool::swap()',
+  '  │   ├─ [150] Token::transfer(0x1111111111111111111111111111111111111111, 5)',
+  '  │   │   └─ ← [Revert] Paused()',
+  '  │   ├─ [100] Pool::swap()',
+  '  │   │   └─ ← [Stop]',
+  '  │   └─ ← [Stop]',
+  '  └─ ← [Stop]',
+]);
+
+const stats = collectStats(visit => walkTraces(traces, visit));
+
+describe('getSelfGas', () => {
+  it('subtracts the gas forwarded to direct children', () => {
+    const [root] = traces;
+    const pool = root.children[1];
+
+    expect(getSelfGas(root)).toBe(300);
+    expect(getSelfGas(pool)).toBe(150);
+    expect(getSelfGas(pool.children[1])).toBe(100);
+    // Events have no gas of their own
+    expect(getSelfGas(root.children[0].children[0])).toBeNull();
+  });
+
+  it('never goes below zero', () => {
+    const [root] = parseTraceLines([
+      '[10] A::f()',
+      '  ├─ [20] B::g()',
+      '  │   └─ ← [Stop]',
+      '  └─ ← [Stop]',
+    ]);
+
+    expect(getSelfGas(root)).toBe(0);
+  });
+});
+
+describe('collectStats', () => {
+  it('counts calls per contract and function, most frequent first', () => {
+    expect(stats.functions.map(({ key, calls, reverts }) => ({ key, calls, reverts }))).toEqual([
+      { key: 'Token::transfer', calls: 2, reverts: 1 },
+      { key: 'Pool::swap', calls: 2, reverts: 0 },
+      { key: 'Router::swap', calls: 1, reverts: 0 },
+    ]);
+  });
+
+  it('sums inclusive and self gas over all calls', () => {
+    const byKey = new Map(stats.functions.map(entry => [entry.key, entry]));
+
+    expect(byKey.get('Router::swap')).toMatchObject({ totalGas: 1000, selfGas: 300 });
+    expect(byKey.get('Token::transfer')).toMatchObject({ totalGas: 450, selfGas: 450 });
+    // The recursive call counts towards the total at both levels
+    expect(byKey.get('Pool::swap')).toMatchObject({ totalGas: 500, selfGas: 250 });
+  });
+
+  it('counts calls between contracts and events per emitter', () => {
+    expect(stats.edges.map(({ key, calls }) => [key, calls])).toEqual([
+      ['Caller → Router', 1],
+      ['Router → Token', 1],
+      ['Router → Pool', 1],
+      ['Pool → Token', 1],
+      ['Pool → Pool', 1],
+    ]);
+    expect(stats.events.map(({ key, count }) => [key, count])).toEqual([['Token::Transfer', 1]]);
+  });
+
+  it('groups by the given target name', () => {
+    const { functions } = collectStats(
+      visit => walkTraces(traces, visit),
+      trace => (trace.contractName === 'Pool' ? 'Router' : trace.contractName ?? '?')
+    );
+
+    expect(functions.map(({ key, calls }) => [key, calls])).toEqual([
+      ['Router::swap', 3],
+      ['Token::transfer', 2],
+    ]);
+  });
+});
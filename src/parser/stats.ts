@@ -0,0 +1,94 @@
+import { getSelfGas } from './gas';
+import { isFailure } from './reverts';
+import { Trace } from './types';
+
+// Calls of one `Contract::function`
+export interface FunctionStats {
+  key: string;
+  contract: string;
+  functionName: string;
+  calls: number;
+  // Inclusive gas summed over all calls; recursive calls are counted at every level
+  totalGas: number;
+  selfGas: number;
+  reverts: number;
+  occurrences: Trace[];
+}
+
+// Calls from one contract into another
+export interface EdgeStats {
+  key: string;
+  from: string;
+  to: string;
+  calls: number;
+  occurrences: Trace[];
+}
+
+export interface EventStats {
+  key: string;
+  contract: string;
+  name: string;
+  count: number;
+  occurrences: Trace[];
+}
+
+export interface TraceStats {
+  functions: FunctionStats[];
+  edges: EdgeStats[];
+  events: EventStats[];
+}
+
+const defaultName = (trace: Trace) => trace.contractName ?? trace.address ?? '?';
+
+// Aggregate calls, caller → callee edges and events over the nodes `walk`
+// visits, most frequent first
+export const collectStats = (
+  walk: (visit: (trace: Trace) => void) => void,
+  getTargetName: (trace: Trace) => string = defaultName
+): TraceStats => {
+  const functions = new Map<string, FunctionStats>();
+  const edges = new Map<string, EdgeStats>();
+  const events = new Map<string, EventStats>();
+
+  walk(trace => {
+    if (trace.kind === 'event') {
+      const contract = getTargetName(trace);
+      const name = trace.functionName ?? 'raw log';
+      const key = `${contract}::${name}`;
+      const stats = events.get(key) ?? { key, contract, name, count: 0, occurrences: [] };
+      stats.count++;
+      stats.occurrences.push(trace);
+      events.set(key, stats);
+      return;
+    }
+    if (trace.kind !== 'call') return;
+
+    const contract = getTargetName(trace);
+    const functionName = trace.functionName ?? '?';
+    const key = `${contract}::${functionName}`;
+    const stats = functions.get(key)
+      ?? { key, contract, functionName, calls: 0, totalGas: 0, selfGas: 0, reverts: 0, occurrences: [] };
+    stats.calls++;
+    stats.totalGas += trace.gas ?? 0;
+    stats.selfGas += getSelfGas(trace) ?? 0;
+    if (isFailure(trace)) stats.reverts++;
+    stats.occurrences.push(trace);
+    functions.set(key, stats);
+
+    // The caller is the closest enclosing call; test roots have none
+    let caller = trace.parent;
+    while (caller && caller.kind !== 'call') caller = caller.parent;
+    const from = caller ? getTargetName(caller) : 'Caller';
+    const edgeKey = `${from} → ${contract}`;
+    const edge = edges.get(edgeKey) ?? { key: edgeKey, from, to: contract, calls: 0, occurrences: [] };
+    edge.calls++;
+    edge.occurrences.push(trace);
+    edges.set(edgeKey, edge);
+  });
+
+  return {
+    functions: [...functions.values()].sort((a, b) => b.calls - a.calls),
+    edges: [...edges.values()].sort((a, b) => b.calls - a.calls),
+    events: [...events.values()].sort((a, b) => b.count - a.count),
+  };
+};
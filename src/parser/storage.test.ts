@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import counter from './fixtures/counter-vvvvv.txt?raw';
+import { parseForgeOutput } from './forgeOutput';
+import { collectStorageChanges, getStorageOwner, normalizeSlot } from './storage';
+import { parseTraceLines } from './traceParser';
+
+describe('collectStorageChanges', () => {
+  it('keeps different slots in call-tree order rather than by line', () => {
+    const changes = collectStorageChanges(parseForgeOutput(counter).traces);
+
+    expect(changes.map(({ change, frame }) => [frame.functionName, change.slot, change.line])).toEqual([
+      ['test_Increment', '0x290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e563', 13],
+      ['increment', '0', 6],
+    ]);
+  });
+
+  it('orders writes to one slot by chaining their values across nested frames', () => {
+    // The root's summary is printed last and the inner frames out of order
+    const traces = parseTraceLines([
+      '[300] Vault::run()',
+      '  ├─ [100] Vault::second()',
+      '  │   ├─ [50] Vault::first()',
+      '  │   │   ├─  storage changes:',
+      '  │   │   │   @ 0: 1 → 2',
+      '  │   │   └─ ← [Stop]',
+      '  │   ├─  storage changes:',
+      '  │   │   @ 0: 2 → 3',
+      '  │   └─ ← [Stop]',
+      '  ├─ [80] Vault::third()',
+      '  │   ├─  storage changes:',
+      '  │   │   @ 0x00: 3 → 0x04',
+      '  │   └─ ← [Stop]',
+      '  ├─  storage changes:',
+      '  │   @ 0: 0 → 1',
+      '  │   @ 1: 0 → 9',
+      '  └─ ← [Stop]',
+    ]);
+    const changes = collectStorageChanges(traces);
+
+    expect(changes.map(({ change, frame }) => [frame.functionName, change.slot, change.oldValue])).toEqual([
+      ['run', '0', '0'],
+      ['run', '1', '0'],
+      ['first', '0', '1'],
+      ['second', '0', '2'],
+      ['third', '0x00', '3'],
+    ]);
+  });
+
+  it('falls back to tree order when the chain is ambiguous', () => {
+    const traces = parseTraceLines([
+      '[300] Vault::run()',
+      '  ├─ [100] Vault::a()',
+      '  │   ├─  storage changes:',
+      '  │   │   @ 0: 0 → 5',
+      '  │   └─ ← [Stop]',
+      '  ├─ [100] Vault::b()',
+      '  │   ├─  storage changes:',
+      '  │   │   @ 0: 0 → 7',
+      '  │   └─ ← [Stop]',
+      '  └─ ← [Stop]',
+    ]);
+
+    expect(collectStorageChanges(traces).map(({ frame }) => frame.functionName)).toEqual(['a', 'b']);
+  });
+
+  it('attributes delegatecall writes to the calling contract', () => {
+    const traces = parseTraceLines([
+      '[100] Proxy::upgrade()',
+      '  ├─ [50] Implementation::upgrade() [delegatecall]',
+      '  │   ├─  storage changes:',
+      '  │   │   @ 1: 0 → 2',
+      '  │   └─ ← [Stop]',
+      '  └─ ← [Stop]',
+    ]);
+    const [{ frame, owner }] = collectStorageChanges(traces);
+
+    expect(frame.contractName).toBe('Implementation');
+    expect(owner).toBe(traces[0]);
+    expect(getStorageOwner(traces[0])).toBe(traces[0]);
+  });
+});
+
+describe('normalizeSlot', () => {
+  it('compares decimal and hex slots equal', () => {
+    expect(normalizeSlot('0x0a')).toBe(normalizeSlot('10'));
+    expect(normalizeSlot('not a slot')).toBe('not a slot');
+  });
+});
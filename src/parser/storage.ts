@@ -0,0 +1,83 @@
+import { walkTraces } from './traverse';
+import { StorageChange, Trace } from './types';
+
+// A storage change together with the frame that made it and the frame
+// whose storage it touched
+export interface LocatedStorageChange {
+  change: StorageChange;
+  frame: Trace;
+  owner: Trace;
+}
+
+// Delegatecalls run on the caller's storage, so the owner is the closest
+// frame (itself included) that wasn't entered through a delegatecall
+export const getStorageOwner = (trace: Trace): Trace => {
+  let owner = trace;
+  while (owner.callType === 'delegatecall' && owner.parent) {
+    owner = owner.parent;
+  }
+  return owner;
+};
+
+// Key of the contract whose storage a frame touches
+export const getStorageKey = (owner: Trace): string =>
+  owner.address?.toLowerCase() ?? owner.contractName ?? owner.id;
+
+// Put the changes to one slot in the order they happened. Forge prints one
+// summary per frame, so neither lines nor tree order say when a write
+// happened; instead each change has to start from the value the previous
+// one left. Where that is ambiguous (no or several matches) the change
+// coming first in the tree is taken.
+const chainSlotChanges = (changes: LocatedStorageChange[]): LocatedStorageChange[] => {
+  const remaining = [...changes];
+  const ordered: LocatedStorageChange[] = [];
+  const produced = new Set(changes.map(({ change }) => normalizeSlot(change.newValue)));
+
+  // The first write starts from a value no other write produced
+  const starts = remaining.filter(({ change }) => !produced.has(normalizeSlot(change.oldValue)));
+  let next = starts.length === 1 ? starts[0] : remaining[0];
+
+  while (next) {
+    remaining.splice(remaining.indexOf(next), 1);
+    ordered.push(next);
+    const value = normalizeSlot(next.change.newValue);
+    const followers = remaining.filter(({ change }) => normalizeSlot(change.oldValue) === value);
+    next = followers.length === 1 ? followers[0] : remaining[0];
+  }
+  return ordered;
+};
+
+// Every storage change in the trees, in execution order as far as it can be
+// told: changes to the same slot are chained by value, and different slots
+// keep the order of the frames that wrote them in the call tree
+export const collectStorageChanges = (traces: Trace[]): LocatedStorageChange[] => {
+  const changes: LocatedStorageChange[] = [];
+  walkTraces(traces, frame => {
+    frame.storageChanges.forEach(change => {
+      changes.push({ change, frame, owner: getStorageOwner(frame) });
+    });
+  });
+
+  const slotKey = ({ owner, change }: LocatedStorageChange) => `${getStorageKey(owner)}:${normalizeSlot(change.slot)}`;
+  const bySlot = new Map<string, LocatedStorageChange[]>();
+  changes.forEach(located => {
+    const key = slotKey(located);
+    const group = bySlot.get(key);
+    if (group) group.push(located);
+    else bySlot.set(key, [located]);
+  });
+  const chained = new Map([...bySlot].map(([key, slotChanges]) => [key, chainSlotChanges(slotChanges)]));
+
+  // Each slot's changes fill the places its changes took in tree order
+  return changes.map(located => chained.get(slotKey(located))!.shift()!);
+};
+
+// Slots (and values) are printed in decimal for small numbers and hex
+// otherwise; normalise so both forms compare equal
+export const normalizeSlot = (slot: string): string => {
+  try {
+    return BigInt(slot).toString();
+  } catch {
+    return slot;
+  }
+};
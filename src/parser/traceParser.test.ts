@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import vault from './fixtures/vault-vvvv.txt?raw';
+import counter from './fixtures/counter-vvvvv.txt?raw';
+import { parseForgeOutput } from './forgeOutput';
+import { parseTraceLines } from './traceParser';
+import { Trace } from './types';
+
+const findTest = (text: string, name: string) => {
+  const test = parseForgeOutput(text).suites.flatMap(suite => suite.tests).find(test => test.name === name);
+  if (!test) throw new Error(`No test ${name}`);
+  return test;
+};
+
+// The trace of the test function itself (the last tree, after setUp)
+const testRoot = (text: string, name: string): Trace => {
+  const { traces } = findTest(text, name);
+  return traces[traces.length - 1];
+};
+
+describe('parseTraceLines', () => {
+  it('parses frames with gas, target, function, args and call type', () => {
+    const root = testRoot(vault, 'test_Deposit()');
+    const balanceOf = root.children[2];
+
+    expect(root.gas).toBe(71234);
+    expect(root.contractName).toBe('VaultTest');
+    expect(root.functionName).toBe('test_Deposit');
+    expect(balanceOf).toMatchObject({
+      kind: 'call',
+      gas: 558,
+      contractName: 'Vault',
+      functionName: 'balanceOf',
+      callType: 'staticcall',
+      depth: 1,
+      parent: root,
+      args: [{ name: 'alice', value: '[0x328809Bc894f92807417D2dAD6b7C998c1aFdac6]' }],
+    });
+  });
+
+  it('reads the {value: ...} block of payable calls', () => {
+    const deposit = testRoot(vault, 'test_Deposit()').children[1];
+
+    expect(deposit.functionName).toBe('deposit');
+    expect(deposit.value).toBe('1000000000000000000');
+    expect(deposit.args).toEqual([]);
+    expect(deposit.callType).toBe('call');
+  });
+
+  it('attaches return lines to the call they close instead of adding nodes', () => {
+    const root = testRoot(vault, 'test_Deposit()');
+    const [prank, deposit, balanceOf, assertEq] = root.children;
+
+    expect(root.children).toHaveLength(4);
+    expect(prank.children).toHaveLength(0);
+    expect(prank.returnContent).toBe('← [Return]');
+    expect(deposit.children.map(child => child.kind)).toEqual(['event']);
+    expect(deposit.status).toBe('stop');
+    expect(balanceOf.returnData).toBe('1000000000000000000 [1e18]');
+    expect(assertEq.status).toBe('return');
+    expect(root.returnContent).toBe('← [Stop]');
+  });
+
+  it('maps return tags to statuses', () => {
+    const withdrawTest = testRoot(vault, 'test_RevertWhen_WithdrawTooMuch()');
+    const loopTest = testRoot(counter, 'test_Loop()');
+
+    expect(withdrawTest.children[1]).toMatchObject({ status: 'revert', revertReason: 'Insufficient()', returnData: null });
+    expect(withdrawTest.status).toBe('revert');
+    expect(loopTest.children[0]).toMatchObject({ status: 'outOfGas', revertReason: 'EvmError: OutOfGas' });
+
+    const [legacy, halted] = parseTraceLines([
+      '[10] A::f()',
+      '  └─ ← EvmError: Revert',
+      '[20] B::g()',
+      '  └─ ← [InvalidFEOpcode] EvmError: InvalidFEOpcode',
+    ]);
+    expect(legacy).toMatchObject({ status: 'revert', revertReason: 'EvmError: Revert' });
+    expect(halted).toMatchObject({ status: 'error', revertReason: 'EvmError: InvalidFEOpcode' });
+  });
+
+  it('attaches events to the frame that emitted them', () => {
+    const deposit = testRoot(vault, 'test_Deposit()').children[1];
+    const [event] = deposit.events;
+
+    expect(deposit.events).toEqual(deposit.children);
+    expect(event).toMatchObject({
+      kind: 'event',
+      functionName: 'Deposited',
+      contractName: 'Vault',
+      parent: deposit,
+      args: [
+        { name: 'account', value: 'alice: [0x328809Bc894f92807417D2dAD6b7C998c1aFdac6]' },
+        { name: 'amount', value: '1000000000000000000 [1e18]' },
+      ],
+    });
+  });
+
+  it('keeps undecoded logs as one event with their continuation lines', () => {
+    const loop = testRoot(counter, 'test_Loop()').children[0];
+    const [log] = loop.events;
+
+    expect(loop.children).toHaveLength(1);
+    expect(log.kind).toBe('event');
+    expect(log.functionName).toBeNull();
+    expect(log.content.split('\n')).toEqual([
+      'emit topic 0: 0x3f9e4c5b1c6f0b7d5a1f3c0e8e0cbe7f1b0d3a6c2e7f4a9b8c1d2e3f4a5b6c7d',
+      'topic 1: 0x000000000000000000000000000000000000000000000000000000000000002a',
+      'data: 0x',
+    ]);
+  });
+
+  it('reads storage change blocks into the frame they are printed in', () => {
+    const root = testRoot(counter, 'test_Increment()');
+    const increment = root.children[0];
+
+    expect(increment.children).toHaveLength(0);
+    expect(increment.storageChanges).toEqual([
+      { slot: '0', oldValue: '0', newValue: '1', line: 6 },
+    ]);
+    expect(root.children).toHaveLength(3);
+    expect(root.storageChanges).toEqual([{
+      slot: '0x290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e563',
+      oldValue: '0',
+      newValue: '7',
+      line: 13,
+    }]);
+  });
+
+  it('parses contract creations', () => {
+    const setUp = findTest(vault, 'test_Deposit()').traces[0];
+
+    expect(setUp.children[0]).toMatchObject({
+      kind: 'call',
+      functionName: 'new',
+      contractName: 'Vault',
+      address: '0x5615dEB798BB3E4dFa0139dFa1b3D433Cc23b72f',
+      callType: 'create',
+      returnData: '602 bytes of code',
+    });
+  });
+
+  it('attaches lines that skip depth levels to the closest open frame', () => {
+    const [root] = parseTraceLines([
+      '[100] A::outer()',
+      '  ├─ [50] B::inner()',
+      '  │   │   │   ├─ [10] C::deep()',
+      '  │   │   │   │   └─ ← [Return] 1',
+      '  │   └─ ← [Stop]',
+      '  ├─ [5] D::next()',
+      '  │   └─ ← [Return]',
+      '  └─ ← [Stop]',
+    ], 10);
+    const [inner, next] = root.children;
+    const [deep] = inner.children;
+
+    expect(root.children).toHaveLength(2);
+    expect(deep).toMatchObject({ functionName: 'deep', depth: 4, parent: inner, id: 'trace-12' });
+    // The deep return closes deep itself, and inner is closed by its own line
+    expect(deep.returnData).toBe('1');
+    expect(inner.status).toBe('stop');
+    expect(next).toMatchObject({ functionName: 'next', parent: root, status: 'return' });
+    expect(root.status).toBe('stop');
+  });
+});
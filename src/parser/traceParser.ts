@@ -0,0 +1,234 @@
+import { findClosingBracket, parseArgs } from './args';
+import { isAddress } from './labels';
+import { CallType, Trace, TraceStatus } from './types';
+
+const CALL_TYPES: CallType[] = ['staticcall', 'delegatecall', 'callcode', 'call'];
+
+// Create an empty node; the line parser fills in whatever it recognises
+const createTrace = (content: string, depth: number, line: number): Trace => ({
+  id: `trace-${line}`,
+  kind: 'text',
+  content,
+  children: [],
+  depth,
+  line,
+  gas: null,
+  contractName: null,
+  address: null,
+  functionName: null,
+  value: null,
+  args: [],
+  callType: null,
+  returnContent: null,
+  status: null,
+  returnData: null,
+  revertReason: null,
+  events: [],
+  storageChanges: [],
+});
+
+// Parse `Target::function{value: ...}(args) [calltype]` into the trace
+// Returns false when the content is not a call
+const parseCall = (trace: Trace, body: string): boolean => {
+  const headMatch = body.match(/^([^\s:()]+)::([A-Za-z0-9_$]+)/);
+  if (!headMatch) return false;
+
+  let pos = headMatch[0].length;
+
+  // Optional `{value: ...}` block on payable calls
+  let value: string | null = null;
+  if (body[pos] === '{') {
+    const end = findClosingBracket(body, pos);
+    if (end === -1) return false;
+    const valueMatch = body.substring(pos + 1, end).match(/value:\s*(.*)$/s);
+    value = valueMatch ? valueMatch[1].trim() : null;
+    pos = end + 1;
+  }
+
+  if (body[pos] !== '(') return false;
+  const argsEnd = findClosingBracket(body, pos);
+  if (argsEnd === -1) return false;
+
+  const target = headMatch[1];
+  const rest = body.substring(argsEnd + 1);
+
+  trace.kind = 'call';
+  trace.contractName = isAddress(target) ? null : target;
+  trace.address = isAddress(target) ? target : null;
+  trace.functionName = headMatch[2];
+  trace.value = value;
+  trace.args = parseArgs(body.substring(pos + 1, argsEnd));
+  trace.callType = CALL_TYPES.find(type => rest.includes(`[${type}]`)) || 'call';
+  return true;
+};
+
+// Parse `→ new Foo@0x...` creations into the trace. Forge prints
+// `<unknown>` for contracts it has no artifact for.
+const parseCreation = (trace: Trace, body: string): boolean => {
+  const creationMatch = body.match(/^→ new ([^@\s]+)@(0x[a-fA-F0-9]{40})/);
+  if (!creationMatch) return false;
+
+  const rest = body.substring(creationMatch[0].length);
+  const valueMatch = rest.match(/^\{value:\s*([^}]*)\}/);
+
+  trace.kind = 'call';
+  trace.contractName = creationMatch[1] === '<unknown>' ? null : creationMatch[1];
+  trace.address = creationMatch[2];
+  trace.functionName = 'new';
+  trace.value = valueMatch ? valueMatch[1].trim() : null;
+  trace.callType = rest.includes('[create2]') ? 'create2' : 'create';
+  return true;
+};
+
+// Parse `emit Name(args)` into the trace. Raw logs forge could not decode
+// (`emit topic 0: 0x...`) are kept as events without a name or arguments.
+const parseEvent = (trace: Trace, body: string): boolean => {
+  if (!body.startsWith('emit ')) return false;
+
+  trace.kind = 'event';
+  const eventMatch = body.match(/^emit ([A-Za-z0-9_$]+)\(/);
+  if (eventMatch) {
+    const argsStart = eventMatch[0].length - 1;
+    const argsEnd = findClosingBracket(body, argsStart);
+    trace.functionName = eventMatch[1];
+    trace.args = parseArgs(body.substring(argsStart + 1, argsEnd === -1 ? body.length : argsEnd));
+  }
+  return true;
+};
+
+// Map the bracketed status forge prints to a TraceStatus. Older forge
+// versions print no tag and only an `EvmError: ...` message on failure.
+const parseStatus = (tag: string | null, data: string): TraceStatus => {
+  switch (tag) {
+    case 'Return':
+      return 'return';
+    case 'Stop':
+      return 'stop';
+    case 'Revert':
+      return 'revert';
+    case 'OutOfGas':
+      return 'outOfGas';
+    case null:
+      if (data.startsWith('EvmError: OutOfGas')) return 'outOfGas';
+      if (data.startsWith('EvmError:')) return 'revert';
+      return 'return';
+    default:
+      return 'error';
+  }
+};
+
+// Attach a `← [Status] data` line to the frame it closes
+const applyReturn = (frame: Trace, content: string) => {
+  frame.returnContent = content;
+
+  const returnMatch = content.match(/^←\s*(?:\[([A-Za-z]+)\])?\s*(.*)$/s);
+  const tag = returnMatch?.[1] ?? null;
+  const data = returnMatch?.[2].trim() ?? '';
+
+  frame.status = parseStatus(tag, data);
+  if (frame.status === 'return' || frame.status === 'stop') {
+    frame.returnData = data;
+  } else {
+    frame.revertReason = data || tag;
+  }
+};
+
+// Parse individual trace lines into a hierarchical structure.
+// `startLine` is the line number of `lines[0]` within the whole file,
+// so that node IDs stay unique across trace sections.
+export const parseTraceLines = (lines: string[], startLine = 0): Trace[] => {
+  const rootTraces: Trace[] = [];
+  let currentStack: Trace[] = [];
+  let lastTrace: Trace | null = null;
+  // Frame whose `storage changes:` block is being read
+  let storageFrame: Trace | null = null;
+
+  lines.forEach((line, index) => {
+    // Skip empty lines
+    if (!line.trim()) return;
+
+    // Determine indentation level by counting leading spaces, ├─, │, etc.
+    const indentMatch = line.match(/^(\s*(?:[│├└]─?\s*)*)/);
+    if (!indentMatch) return;
+
+    const indentPart = indentMatch[1];
+    // Calculate depth based on indent characters
+    const depth = (indentPart.match(/[│├└]/g) || []).length;
+
+    // Trim the indentation characters and spaces
+    const content = line.substring(indentPart.length).trim();
+    if (!content) return;
+
+    // `storage changes:` blocks (-vvvvv) belong to the frame they are printed
+    // in rather than becoming nodes of their own
+    if (content === 'storage changes:') {
+      storageFrame = depth > 0 ? currentStack[Math.min(depth, currentStack.length) - 1] ?? null : null;
+      return;
+    }
+    const storageMatch = content.match(/^@ (\S+): (.*?) → (.*)$/);
+    if (storageMatch && storageFrame) {
+      storageFrame.storageChanges.push({
+        slot: storageMatch[1],
+        oldValue: storageMatch[2].trim(),
+        newValue: storageMatch[3].trim(),
+        line: startLine + index,
+      });
+      return;
+    }
+    storageFrame = null;
+
+    // Lines indented only by `│` continue the previous node
+    // (e.g. the `topic 1:` and `data:` lines of an undecoded log)
+    if (depth > 0 && !/[├└]/.test(indentPart)) {
+      if (lastTrace) lastTrace.content += `\n${content}`;
+      return;
+    }
+
+    // Return lines close the frame one level up instead of becoming nodes
+    if (content.startsWith('←') && depth > 0 && currentStack.length > 0) {
+      const frame = currentStack[Math.min(depth, currentStack.length) - 1];
+      applyReturn(frame, content);
+      currentStack = currentStack.slice(0, Math.min(depth, currentStack.length));
+      return;
+    }
+
+    const trace = createTrace(content, depth, startLine + index);
+
+    // Strip the `[gas]` prefix forge puts in front of frames
+    let body = content;
+    const gasMatch = body.match(/^\[(\d+)\]\s*/);
+    if (gasMatch) {
+      trace.gas = parseInt(gasMatch[1], 10);
+      body = body.substring(gasMatch[0].length);
+    }
+
+    if (!parseEvent(trace, body) && !parseCreation(trace, body)) {
+      parseCall(trace, body);
+    }
+
+    // Add to appropriate level in the tree
+    if (depth === 0 || currentStack.length === 0) {
+      // Root level trace
+      rootTraces.push(trace);
+      currentStack = [trace];
+    } else {
+      // Going back up, staying at the same level, or going deeper
+      // (possibly skipping levels): attach to the closest open frame
+      currentStack = currentStack.slice(0, Math.min(depth, currentStack.length));
+      const parent = currentStack[currentStack.length - 1];
+      trace.parent = parent;
+      parent.children.push(trace);
+      if (trace.kind === 'event') {
+        parent.events.push(trace);
+        // Events inherit the emitting contract from their frame
+        trace.contractName = parent.contractName;
+        trace.address = parent.address;
+      }
+      currentStack.push(trace);
+    }
+
+    lastTrace = trace;
+  });
+
+  return rootTraces;
+};
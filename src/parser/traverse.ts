@@ -0,0 +1,30 @@
+import { Trace } from './types';
+
+// Visit every node depth-first in tree order. Iterative so very deep call
+// stacks can't overflow the JS stack.
+export const walkTraces = (traces: Trace[], visit: (trace: Trace) => void) => {
+  const stack = [...traces].reverse();
+  while (stack.length > 0) {
+    const trace = stack.pop()!;
+    visit(trace);
+    for (let i = trace.children.length - 1; i >= 0; i--) {
+      stack.push(trace.children[i]);
+    }
+  }
+};
+
+// Look up nodes by ID
+export const indexTraces = (traces: Trace[]): Map<string, Trace> => {
+  const index = new Map<string, Trace>();
+  walkTraces(traces, trace => index.set(trace.id, trace));
+  return index;
+};
+
+// The frames enclosing a node, outermost first
+export const getAncestors = (trace: Trace): Trace[] => {
+  const ancestors: Trace[] = [];
+  for (let ancestor = trace.parent; ancestor; ancestor = ancestor.parent) {
+    ancestors.unshift(ancestor);
+  }
+  return ancestors;
+};
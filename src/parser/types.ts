@@ -0,0 +1,64 @@
+// Call opcodes forge distinguishes in its trace output. Contract creations
+// (`→ new Foo@0x...`) are frames too, of type create or create2.
+export type CallType = 'call' | 'staticcall' | 'delegatecall' | 'callcode' | 'create' | 'create2';
+
+// How a frame ended, taken from the `← [Status]` line that closed it
+//  - error: any other halt forge reports (`[InvalidFEOpcode]`, `[StackOverflow]`, ...)
+export type TraceStatus = 'return' | 'stop' | 'revert' | 'outOfGas' | 'error';
+
+// What a single trace line turned into once parsed
+//  - call:  `[gas] Target::function(args)` and `[gas] → new Foo@0x...` frames
+//  - event: `emit Name(args)` lines, attached to the frame that emitted them
+//  - text:  anything else we keep in the tree (console output, ...)
+export type TraceKind = 'call' | 'event' | 'text';
+
+// A single argument, either positional (`1000`) or named (`value: 1000`)
+export interface TraceArg {
+  name: string | null;
+  value: string;
+}
+
+// A storage write forge printed under a frame at -vvvvv (`@ slot: old → new`)
+export interface StorageChange {
+  slot: string;
+  oldValue: string;
+  newValue: string;
+  // Zero-based line number in the source text
+  line: number;
+}
+
+// A node in the parsed call tree
+export interface Trace {
+  id: string;
+  kind: TraceKind;
+  // Line content with the tree-drawing prefix removed
+  content: string;
+  children: Trace[];
+  depth: number;
+  // Zero-based line number in the source text
+  line: number;
+  gas: number | null;
+  // Label forge resolved for the target, e.g. `Counter` or `console`
+  contractName: string | null;
+  // Target address when forge printed one instead of (or next to) a label
+  address: string | null;
+  // Function name for calls (`new` for creations), event name for events
+  functionName: string | null;
+  // Contents of a `{value: ...}` block on payable calls
+  value: string | null;
+  args: TraceArg[];
+  callType: CallType | null;
+  // The `← ...` line that closed this frame
+  returnContent: string | null;
+  // Null until a return line closes the frame (e.g. truncated traces)
+  status: TraceStatus | null;
+  // Data of a `← [Return]`/`← [Stop]` line
+  returnData: string | null;
+  // Reason of a `← [Revert]` (or other failing) line
+  revertReason: string | null;
+  // Events emitted directly by this frame, in order (also present in children)
+  events: Trace[];
+  // Storage written by this frame, in order
+  storageChanges: StorageChange[];
+  parent?: Trace;
+}
@@ -0,0 +1,3 @@
+export { clearForgottenSessions, deleteSession, forgetSession, hashTraceText, loadSession, saveSession } from './store';
+export { createSessionFile, parseSessionFile } from './sessionFile';
+export type { Bookmark, SessionFile, SessionState } from './types';
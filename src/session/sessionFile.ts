@@ -0,0 +1,33 @@
+import { SessionFile, SessionState } from './types';
+
+export const createSessionFile = (name: string, text: string, session: SessionState): SessionFile => ({
+  version: 1,
+  name,
+  text,
+  session,
+});
+
+// Validate an imported session file; throws with a readable message
+export const parseSessionFile = (json: unknown): SessionFile => {
+  const file = json as Partial<SessionFile> | null;
+  if (!file || typeof file !== 'object' || file.version !== 1) {
+    throw new Error('Not a trace viewer session file');
+  }
+  if (typeof file.text !== 'string' || !file.session || !Array.isArray(file.session.expandedIds)) {
+    throw new Error('Session file is missing the trace or its view state');
+  }
+  return {
+    version: 1,
+    name: typeof file.name === 'string' ? file.name : 'session',
+    text: file.text,
+    session: {
+      ...file.session,
+      historyIds: file.session.historyIds ?? [],
+      historyIndex: file.session.historyIndex ?? (file.session.historyIds ?? []).length - 1,
+      pinnedIds: file.session.pinnedIds ?? [],
+      searchTerm: file.session.searchTerm ?? '',
+      selectedTestId: file.session.selectedTestId ?? null,
+      bookmarks: file.session.bookmarks ?? [],
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { clearForgottenSessions, deleteSession, forgetSession, loadSession, saveSession } from './store';
+import { SessionState } from './types';
+
+const session = (overrides: Partial<SessionState> = {}): SessionState => ({
+  hash: '0xabc',
+  name: 'trace.txt',
+  updatedAt: 1,
+  expandedIds: ['trace-0'],
+  historyIds: [],
+  historyIndex: -1,
+  pinnedIds: [],
+  searchTerm: '',
+  selectedTestId: null,
+  bookmarks: [],
+  ...overrides,
+});
+
+describe('session store', () => {
+  beforeEach(async () => {
+    clearForgottenSessions();
+    await deleteSession('0xabc');
+    await deleteSession('0xdef');
+  });
+
+  it('saves and loads sessions by hash', async () => {
+    await saveSession(session());
+
+    expect(await loadSession('0xabc')).toEqual(session());
+    expect(await loadSession('0xdef')).toBeNull();
+  });
+
+  it('keeps a forgotten session unsaved through later interactions', async () => {
+    await saveSession(session());
+    await forgetSession('0xabc');
+    expect(await loadSession('0xabc')).toBeNull();
+
+    // Expanding a frame afterwards triggers another autosave
+    await saveSession(session({ expandedIds: ['trace-0', 'trace-3'], updatedAt: 2 }));
+    expect(await loadSession('0xabc')).toBeNull();
+
+    // Other traces are still saved
+    await saveSession(session({ hash: '0xdef' }));
+    expect(await loadSession('0xdef')).not.toBeNull();
+  });
+
+  it('saves a forgotten session again once a trace is loaded anew', async () => {
+    await forgetSession('0xabc');
+    clearForgottenSessions();
+    await saveSession(session({ updatedAt: 3 }));
+
+    expect(await loadSession('0xabc')).toMatchObject({ updatedAt: 3 });
+  });
+});
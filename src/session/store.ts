@@ -0,0 +1,57 @@
+import { keccak256, stringToBytes } from 'viem';
+import { SessionState } from './types';
+
+const DB_NAME = 'foundry-trace-viewer';
+const STORE_NAME = 'sessions';
+
+// Key sessions by content so reopening the same file restores its view
+export const hashTraceText = (text: string) => keccak256(stringToBytes(text));
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'hash' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run a single request against the session store
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadSession = async (hash: string): Promise<SessionState | null> =>
+  (await withStore<SessionState | undefined>('readonly', store => store.get(hash))) ?? null;
+
+// Sessions the user forgot, kept from being saved again by later view
+// changes until a trace is loaded anew
+const forgottenHashes = new Set<string>();
+
+export const saveSession = async (session: SessionState) => {
+  if (forgottenHashes.has(session.hash)) return;
+  await withStore('readwrite', store => store.put(session));
+};
+
+export const deleteSession = async (hash: string) => {
+  await withStore('readwrite', store => store.delete(hash));
+};
+
+// Delete a saved session and stop saving it
+export const forgetSession = async (hash: string) => {
+  forgottenHashes.add(hash);
+  await deleteSession(hash);
+};
+
+// Save sessions again, e.g. once the user loads a trace
+export const clearForgottenSessions = () => {
+  forgottenHashes.clear();
+};
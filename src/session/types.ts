@@ -0,0 +1,30 @@
+export interface Bookmark {
+  traceId: string;
+  note: string;
+  createdAt: number;
+}
+
+// What the viewer looked like for one trace file
+export interface SessionState {
+  // keccak256 of the trace text; node IDs are only stable for the same text
+  hash: string;
+  name: string;
+  updatedAt: number;
+  expandedIds: string[];
+  // Sidebar history, oldest first, and the entry being shown
+  historyIds: string[];
+  historyIndex: number;
+  // Frames pinned next to the sidebar
+  pinnedIds: string[];
+  searchTerm: string;
+  selectedTestId: string | null;
+  bookmarks: Bookmark[];
+}
+
+// A session bundled with its trace, for handing to a teammate
+export interface SessionFile {
+  version: 1;
+  name: string;
+  text: string;
+  session: SessionState;
+}